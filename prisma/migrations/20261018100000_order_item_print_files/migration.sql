@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "backPrintFile" TEXT,
+ADD COLUMN     "frontPrintFile" TEXT;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "CartItem" ADD COLUMN     "backThumbnailUrl" TEXT,
+ADD COLUMN     "frontThumbnailUrl" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "backThumbnailUrl" TEXT,
+ADD COLUMN     "frontThumbnailUrl" TEXT;
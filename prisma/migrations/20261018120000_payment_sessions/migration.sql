@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "PaymentProvider" AS ENUM ('PAYME', 'CLICK', 'MOCK');
+
+-- CreateEnum
+CREATE TYPE "PaymentSessionStatus" AS ENUM ('PENDING', 'PROCESSING', 'PAID', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "PaymentSession" (
+    "id" SERIAL NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "provider" "PaymentProvider" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" "PaymentSessionStatus" NOT NULL DEFAULT 'PENDING',
+    "externalId" TEXT,
+    "externalTime" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "cancelReason" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentSession_orderId_idx" ON "PaymentSession"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentSession_provider_externalId_key" ON "PaymentSession"("provider", "externalId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentSession" ADD CONSTRAINT "PaymentSession_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'PARTIALLY_PAID';
+ALTER TYPE "PaymentStatus" ADD VALUE 'PARTIALLY_REFUNDED';
+ALTER TYPE "PaymentStatus" ADD VALUE 'REFUNDED';
+
+-- CreateEnum
+CREATE TYPE "PaymentTransactionType" AS ENUM ('CHARGE', 'REFUND');
+
+-- CreateEnum
+CREATE TYPE "PaymentTransactionStatus" AS ENUM ('SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "PaymentTransaction" (
+    "id" SERIAL NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "sessionId" INTEGER,
+    "type" "PaymentTransactionType" NOT NULL,
+    "status" "PaymentTransactionStatus" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "provider" "PaymentProvider",
+    "externalId" TEXT,
+    "reason" TEXT,
+    "actorId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentTransaction_orderId_idx" ON "PaymentTransaction"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentTransaction" ADD CONSTRAINT "PaymentTransaction_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentTransaction" ADD CONSTRAINT "PaymentTransaction_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "PaymentSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentTransaction" ADD CONSTRAINT "PaymentTransaction_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: settled and cancelled payment sessions become ledger entries
+INSERT INTO "PaymentTransaction" ("orderId", "sessionId", "type", "status", "amount", "provider", "externalId", "createdAt")
+SELECT "orderId", "id", 'CHARGE', 'SUCCEEDED', "amount", "provider", "externalId", COALESCE("paidAt", "updatedAt")
+FROM "PaymentSession"
+WHERE "status" = 'PAID';
+
+INSERT INTO "PaymentTransaction" ("orderId", "sessionId", "type", "status", "amount", "provider", "externalId", "createdAt")
+SELECT "orderId", "id", 'CHARGE', 'FAILED', "amount", "provider", "externalId", COALESCE("cancelledAt", "updatedAt")
+FROM "PaymentSession"
+WHERE "status" = 'CANCELLED';
+
+-- Backfill: orders marked as paid by hand get one charge for their total
+INSERT INTO "PaymentTransaction" ("orderId", "type", "status", "amount", "reason", "createdAt")
+SELECT o."id", 'CHARGE', 'SUCCEEDED', o."totalPrice", 'Recorded before the payment ledger', o."updatedAt"
+FROM "Order" o
+WHERE o."paymentStatus" = 'PAID'
+  AND NOT EXISTS (
+    SELECT 1 FROM "PaymentTransaction" t
+    WHERE t."orderId" = o."id" AND t."type" = 'CHARGE' AND t."status" = 'SUCCEEDED'
+  );
@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('COD', 'CARD', 'PAYME', 'CLICK');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "paymentMethod" "PaymentMethod" NOT NULL DEFAULT 'COD';
+
+-- Orders that already started an online payment keep its provider as the method
+UPDATE "Order" o
+SET "paymentMethod" = CASE s."provider" WHEN 'CLICK' THEN 'CLICK'::"PaymentMethod" ELSE 'PAYME'::"PaymentMethod" END
+FROM (
+  SELECT DISTINCT ON ("orderId") "orderId", "provider"
+  FROM "PaymentSession"
+  WHERE "provider" IN ('PAYME', 'CLICK')
+  ORDER BY "orderId", ("status" = 'PAID') DESC, "createdAt" DESC
+) s
+WHERE s."orderId" = o."id";
+
+-- CreateIndex
+CREATE INDEX "Order_paymentMethod_idx" ON "Order"("paymentMethod");
@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "DiscountType" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "discountTotal" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Cart" ADD COLUMN     "couponCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "Coupon" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "DiscountType" NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "minOrderValue" DOUBLE PRECISION,
+    "categories" "Category"[],
+    "productIds" INTEGER[],
+    "usageLimit" INTEGER,
+    "usageLimitPerUser" INTEGER,
+    "usedCount" INTEGER NOT NULL DEFAULT 0,
+    "startsAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Coupon_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderDiscount" (
+    "id" SERIAL NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "couponId" INTEGER,
+    "code" TEXT NOT NULL,
+    "type" "DiscountType" NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "eligibleSubtotal" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderDiscount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Coupon_code_key" ON "Coupon"("code");
+
+-- CreateIndex
+CREATE INDEX "OrderDiscount_orderId_idx" ON "OrderDiscount"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderDiscount_couponId_idx" ON "OrderDiscount"("couponId");
+
+-- AddForeignKey
+ALTER TABLE "OrderDiscount" ADD CONSTRAINT "OrderDiscount_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderDiscount" ADD CONSTRAINT "OrderDiscount_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "Coupon"("id") ON DELETE SET NULL ON UPDATE CASCADE;
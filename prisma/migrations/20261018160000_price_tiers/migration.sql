@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "PriceTier" (
+    "id" SERIAL NOT NULL,
+    "variantId" INTEGER,
+    "productId" INTEGER,
+    "minQuantity" INTEGER NOT NULL,
+    "unitPrice" DOUBLE PRECISION,
+    "discountPercent" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PriceTier_pkey" PRIMARY KEY ("id"),
+    -- A tier belongs to either a variant or a product, and has one kind of price
+    CONSTRAINT "PriceTier_target_check" CHECK (("variantId" IS NULL) <> ("productId" IS NULL)),
+    CONSTRAINT "PriceTier_price_check" CHECK (("unitPrice" IS NULL) <> ("discountPercent" IS NULL))
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceTier_variantId_minQuantity_key" ON "PriceTier"("variantId", "minQuantity");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceTier_productId_minQuantity_key" ON "PriceTier"("productId", "minQuantity");
+
+-- AddForeignKey
+ALTER TABLE "PriceTier" ADD CONSTRAINT "PriceTier_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "Variant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceTier" ADD CONSTRAINT "PriceTier_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
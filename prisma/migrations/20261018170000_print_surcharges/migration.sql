@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "SurchargeKind" AS ENUM ('PER_SIDE', 'BOTH_SIDES', 'ELEMENT_COUNT', 'COVERAGE');
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "priceBreakdown" JSONB;
+
+-- CreateTable
+CREATE TABLE "PrintSurchargeRule" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" "SurchargeKind" NOT NULL,
+    "threshold" DOUBLE PRECISION,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "category" "Category",
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PrintSurchargeRule_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "Region" AS ENUM ('TASHKENT_CITY', 'TASHKENT_REGION', 'ANDIJAN', 'BUKHARA', 'FERGANA', 'JIZZAKH', 'KASHKADARYA', 'KHOREZM', 'NAMANGAN', 'NAVOI', 'SAMARKAND', 'SURKHANDARYA', 'SYRDARYA', 'KARAKALPAKSTAN');
+
+-- Maps the free-text regions entered so far (Uzbek, English or Russian spelling).
+-- Plain "Tashkent" is taken as the city; anything unrecognised becomes NULL.
+CREATE FUNCTION pg_temp.parse_region(value TEXT) RETURNS "Region" AS $$
+  SELECT CASE
+    WHEN v ~ '(qoraqalpo|karakalpak|каракалпак)' THEN 'KARAKALPAKSTAN'
+    WHEN v ~ '(andijon|andijan|андижан)' THEN 'ANDIJAN'
+    WHEN v ~ '(buxoro|bukhara|buhara|бухар)' THEN 'BUKHARA'
+    WHEN v ~ '(farg|fergana|ferghana|ферган)' THEN 'FERGANA'
+    WHEN v ~ '(jizzax|jizzakh|jizax|джизак)' THEN 'JIZZAKH'
+    WHEN v ~ '(qashqadaryo|kashkadarya|кашкадар)' THEN 'KASHKADARYA'
+    WHEN v ~ '(xorazm|khorezm|khorazm|horezm|хорезм)' THEN 'KHOREZM'
+    WHEN v ~ '(namangan|наманган)' THEN 'NAMANGAN'
+    WHEN v ~ '(navoi|navoiy|навои)' THEN 'NAVOI'
+    WHEN v ~ '(samarqand|samarkand|самарканд)' THEN 'SAMARKAND'
+    WHEN v ~ '(surxondaryo|surkhandarya|сурхандар)' THEN 'SURKHANDARYA'
+    WHEN v ~ '(sirdaryo|syrdarya|сырдар)' THEN 'SYRDARYA'
+    WHEN v ~ '(toshkent|tashkent|ташкент)' AND v ~ '(viloyat|region|oblast|област)' THEN 'TASHKENT_REGION'
+    WHEN v ~ '(toshkent|tashkent|ташкент)' THEN 'TASHKENT_CITY'
+  END::"Region"
+  FROM (SELECT lower(trim(value)) AS v) normalized;
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- AlterTable
+ALTER TABLE "User" ALTER COLUMN "region" TYPE "Region" USING pg_temp.parse_region("region");
+
+-- AlterTable
+ALTER TABLE "Order" ALTER COLUMN "region" DROP NOT NULL,
+ALTER COLUMN "region" TYPE "Region" USING pg_temp.parse_region("region"),
+ADD COLUMN     "shippingFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "shippingZoneId" INTEGER,
+ADD COLUMN     "deliveryDaysMin" INTEGER,
+ADD COLUMN     "deliveryDaysMax" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ShippingZone" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "regions" "Region"[],
+    "fee" DOUBLE PRECISION NOT NULL,
+    "freeShippingThreshold" DOUBLE PRECISION,
+    "minDays" INTEGER NOT NULL,
+    "maxDays" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingZone_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_shippingZoneId_fkey" FOREIGN KEY ("shippingZoneId") REFERENCES "ShippingZone"("id") ON DELETE SET NULL ON UPDATE CASCADE;
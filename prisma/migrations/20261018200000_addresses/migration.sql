@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "district" TEXT,
+ADD COLUMN     "landmark" TEXT,
+ADD COLUMN     "addressId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Address" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "label" TEXT,
+    "recipientName" TEXT NOT NULL,
+    "recipientPhone" VARCHAR(20) NOT NULL,
+    "region" "Region" NOT NULL,
+    "district" TEXT NOT NULL,
+    "street" TEXT NOT NULL,
+    "landmark" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Address_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Address_userId_idx" ON "Address"("userId");
+
+-- At most one default address per user (not expressible in the Prisma schema)
+CREATE UNIQUE INDEX "Address_userId_default_key" ON "Address"("userId") WHERE "isDefault";
+
+-- AddForeignKey
+ALTER TABLE "Address" ADD CONSTRAINT "Address_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_addressId_fkey" FOREIGN KEY ("addressId") REFERENCES "Address"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "customerNote" TEXT,
+ADD COLUMN     "idempotencyKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_userId_idempotencyKey_key" ON "Order"("userId", "idempotencyKey");
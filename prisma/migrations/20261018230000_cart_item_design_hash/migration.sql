@@ -0,0 +1,7 @@
+-- AlterTable
+-- Existing rows keep a NULL hash until the server backfills them on startup
+-- (CartService.backfillDesignHashes), merging lines whose designs match.
+ALTER TABLE "CartItem" ADD COLUMN     "designHash" CHAR(64);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartItem_cartId_variantId_designHash_key" ON "CartItem"("cartId", "variantId", "designHash");
@@ -0,0 +1,3 @@
+-- AlterTable
+-- Guest carts have no user; they are found through a signed cart token.
+ALTER TABLE "Cart" ALTER COLUMN "userId" DROP NOT NULL;
@@ -0,0 +1,11 @@
+-- DropForeignKey
+ALTER TABLE "CartItem" DROP CONSTRAINT "CartItem_variantId_fkey";
+
+-- AlterTable
+-- Deleting a variant keeps its cart lines (flagged as unavailable) instead of failing.
+-- acceptedUnitPrice stays NULL for existing lines until the cart is next viewed.
+ALTER TABLE "CartItem" ALTER COLUMN "variantId" DROP NOT NULL,
+ADD COLUMN     "acceptedUnitPrice" DOUBLE PRECISION;
+
+-- AddForeignKey
+ALTER TABLE "CartItem" ADD CONSTRAINT "CartItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "Variant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateTable
+-- One reminder per idle period of a cart; orderId is set when the cart is checked out afterwards.
+CREATE TABLE "AbandonedCartReminder" (
+    "id" SERIAL NOT NULL,
+    "cartId" INTEGER NOT NULL,
+    "cartUpdatedAt" TIMESTAMP(3) NOT NULL,
+    "itemCount" INTEGER NOT NULL,
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "emailSentAt" TIMESTAMP(3),
+    "recoveredAt" TIMESTAMP(3),
+    "orderId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AbandonedCartReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Cart_updatedAt_idx" ON "Cart"("updatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AbandonedCartReminder_orderId_key" ON "AbandonedCartReminder"("orderId");
+
+-- CreateIndex
+CREATE INDEX "AbandonedCartReminder_createdAt_idx" ON "AbandonedCartReminder"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AbandonedCartReminder_cartId_cartUpdatedAt_key" ON "AbandonedCartReminder"("cartId", "cartUpdatedAt");
+
+-- AddForeignKey
+ALTER TABLE "AbandonedCartReminder" ADD CONSTRAINT "AbandonedCartReminder_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "Cart"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AbandonedCartReminder" ADD CONSTRAINT "AbandonedCartReminder_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterTable
+-- Guest orders keep their cart so a checkout idempotencyKey is unique per guest cart.
+ALTER TABLE "Order" ADD COLUMN     "guestCartId" INTEGER;
+
+-- AlterTable
+-- Idempotency-Key records belong to a user or, for guests, to their cart.
+ALTER TABLE "IdempotencyRecord" ADD COLUMN     "cartId" INTEGER,
+ALTER COLUMN "userId" DROP NOT NULL,
+ADD CONSTRAINT "IdempotencyRecord_owner_check" CHECK (("userId" IS NULL) <> ("cartId" IS NULL));
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_guestCartId_idempotencyKey_key" ON "Order"("guestCartId", "idempotencyKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IdempotencyRecord_cartId_key_key" ON "IdempotencyRecord"("cartId", "key");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_guestCartId_fkey" FOREIGN KEY ("guestCartId") REFERENCES "Cart"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IdempotencyRecord" ADD CONSTRAINT "IdempotencyRecord_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "Cart"("id") ON DELETE CASCADE ON UPDATE CASCADE;
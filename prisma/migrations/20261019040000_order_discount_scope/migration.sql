@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "OrderDiscount" ADD COLUMN     "categories" "Category"[],
+ADD COLUMN     "productIds" INTEGER[];
+
+-- Existing discount lines take the restrictions of their coupon; lines whose
+-- coupon was deleted keep applying to every product, as they did before
+UPDATE "OrderDiscount" d
+SET "categories" = c."categories", "productIds" = c."productIds"
+FROM "Coupon" c
+WHERE c."id" = d."couponId";
+
+UPDATE "OrderDiscount"
+SET "categories" = '{}', "productIds" = '{}'
+WHERE "categories" IS NULL;
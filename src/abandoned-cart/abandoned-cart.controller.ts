@@ -0,0 +1,38 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { AbandonedCartService } from './abandoned-cart.service';
+import { AbandonedCartStatsQueryDto } from './dto/abandoned-cart-stats-query.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+
+@ApiTags('Abandoned Carts')
+@ApiBearerAuth()
+@Roles(Role.ADMIN, Role.SUPER_ADMIN)
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('abandoned-carts')
+export class AbandonedCartController {
+  constructor(private readonly abandonedCartService: AbandonedCartService) {}
+
+  @Get('stats')
+  @ApiOperation({ summary: 'Eslatmalar va qaytgan buyurtmalar statistikasi' })
+  getStats(@Query() query: AbandonedCartStatsQueryDto) {
+    return this.abandonedCartService.getStats(query);
+  }
+
+  @Post('run')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Tashlab ketilgan savatchalarni hozir tekshirish' })
+  async run() {
+    return { sent: await this.abandonedCartService.sendReminders() };
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { PricingModule } from '../pricing/pricing.module';
+import { NotificationModule } from '../notification/notification.module';
+import { MailModule } from '../mail/mail.module';
+import { AbandonedCartService } from './abandoned-cart.service';
+import { AbandonedCartController } from './abandoned-cart.controller';
+
+@Module({
+  imports: [
+    PrismaModule,
+    ConfigModule,
+    AuthModule,
+    PricingModule,
+    NotificationModule,
+    MailModule,
+  ],
+  controllers: [AbandonedCartController],
+  providers: [AbandonedCartService],
+  exports: [AbandonedCartService],
+})
+export class AbandonedCartModule {}
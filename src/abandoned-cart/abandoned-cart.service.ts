@@ -0,0 +1,328 @@
+import {
+  BadRequestException,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NotificationType, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PricingService, roundMoney } from '../pricing/pricing.service';
+import { NotificationService } from '../notification/notification.service';
+import { MailService } from '../mail/mail.service';
+import { checkCartItems } from '../cart/cart-check';
+import { AbandonedCartStatsQueryDto } from './dto/abandoned-cart-stats-query.dto';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_IDLE_HOURS = 24;
+const DEFAULT_CHECK_MINUTES = 60;
+const DEFAULT_RECOVERY_DAYS = 7;
+// Bir haftadan ortiq tashlab ketilgan savatchalarga eslatma yuborilmaydi
+const MAX_IDLE_MS = 7 * 24 * HOUR_MS;
+
+@Injectable()
+export class AbandonedCartService implements OnModuleInit, OnModuleDestroy {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private pricingService: PricingService,
+    private notificationService: NotificationService,
+    private mailService: MailService,
+  ) {}
+
+  onModuleInit() {
+    const minutes = this.getCheckMinutes();
+    if (minutes === 0) return;
+
+    this.timer = setInterval(
+      () => void this.runScheduled(),
+      minutes * 60 * 1000,
+    );
+    // Taymer ilovaning to'xtashiga xalaqit bermaydi
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  // Oldingi tekshiruv hali tugamagan bo'lsa, navbatdagisi o'tkazib yuboriladi
+  private async runScheduled() {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.sendReminders();
+    } catch (error) {
+      console.error('Abandoned cart check failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Finds signed-in customers' carts that have been idle for
+   * ABANDONED_CART_IDLE_HOURS and creates a PROMO notification for each,
+   * plus an email with the cart previews when ABANDONED_CART_EMAIL=true.
+   * A cart is reminded once per idle period; changing it starts a new one.
+   * Guest carts are skipped because there is no one to notify.
+   * @returns The number of reminders created
+   */
+  async sendReminders() {
+    const now = Date.now();
+    const carts = await this.prisma.cart.findMany({
+      where: {
+        userId: { not: null },
+        items: { some: {} },
+        updatedAt: {
+          lt: new Date(now - this.getIdleHours() * HOUR_MS),
+          gte: new Date(now - MAX_IDLE_MS),
+        },
+      },
+      include: {
+        user: { select: { email: true, fullName: true } },
+        items: { include: { variant: true } },
+        reminders: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { cartUpdatedAt: true },
+        },
+      },
+    });
+
+    let sent = 0;
+    for (const cart of carts) {
+      // Shu harakatsizlik davri uchun eslatma allaqachon yuborilgan
+      if (
+        cart.reminders[0]?.cartUpdatedAt.getTime() === cart.updatedAt.getTime()
+      ) {
+        continue;
+      }
+      if (await this.remind(cart)) sent++;
+    }
+
+    return sent;
+  }
+
+  private async remind(
+    cart: Prisma.CartGetPayload<{
+      include: {
+        user: { select: { email: true; fullName: true } };
+        items: { include: { variant: true } };
+      };
+    }>,
+  ): Promise<boolean> {
+    // Faqat hali sotuvda bo'lgan mahsulotlar eslatiladi
+    const { priced } = await checkCartItems(this.pricingService, cart.items);
+    if (!priced || !cart.userId) return false;
+
+    const itemCount = priced.lines.reduce(
+      (sum, line) => sum + line.quantity,
+      0,
+    );
+
+    let reminderId: number;
+    try {
+      const reminder = await this.prisma.abandonedCartReminder.create({
+        data: {
+          cartId: cart.id,
+          cartUpdatedAt: cart.updatedAt,
+          itemCount,
+          subtotal: priced.subtotal,
+        },
+      });
+      reminderId = reminder.id;
+    } catch (error) {
+      // Boshqa server nusxasi shu savatchani allaqachon eslatgan
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return false;
+      }
+      throw error;
+    }
+
+    await this.notificationService.create({
+      userId: cart.userId,
+      type: NotificationType.PROMO,
+      title: 'Your cart is waiting',
+      message: `You left ${itemCount} item(s) worth $${priced.subtotal} in your cart. Complete your order before they sell out.`,
+    });
+
+    if (this.isEmailEnabled() && cart.user?.email) {
+      try {
+        await this.sendReminderEmail(
+          cart.user.email,
+          cart.user.fullName,
+          itemCount,
+          priced.subtotal,
+          this.getThumbnails(cart.items),
+        );
+        await this.prisma.abandonedCartReminder.update({
+          where: { id: reminderId },
+          data: { emailSentAt: new Date() },
+        });
+      } catch (emailError) {
+        // Xat yuborilmasa ham bildirishnoma qoladi
+        console.error('Failed to send abandoned cart email:', emailError);
+      }
+    }
+
+    return true;
+  }
+
+  private async sendReminderEmail(
+    email: string,
+    fullName: string,
+    itemCount: number,
+    subtotal: number,
+    thumbnails: string[],
+  ) {
+    await this.mailService.sendSmsToMail(
+      email,
+      'Your cart is waiting',
+      `You left ${itemCount} item(s) worth $${subtotal} in your cart. Complete your order before they sell out.`,
+      `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Your cart is waiting</h2>
+        <p>Dear ${fullName},</p>
+        <p>You left ${itemCount} item(s) in your cart.</p>
+        <p><strong>Subtotal:</strong> $${subtotal}</p>
+        ${thumbnails
+          .map(
+            (url) =>
+              `<img src="${url}" alt="Cart item" width="160" style="margin: 4px; border: 1px solid #eee;">`,
+          )
+          .join('')}
+        <p>Complete your order before they sell out.</p>
+        <hr style="margin: 20px 0;">
+        <p style="font-size: 12px; color: #666;">This is an automated message, please do not reply to this email.</p>
+      </div>`,
+    );
+  }
+
+  // Absolute thumbnail URLs for emails; local files are served under API_URL
+  private getThumbnails(
+    items: {
+      frontThumbnailUrl: string | null;
+      backThumbnailUrl: string | null;
+    }[],
+  ): string[] {
+    const apiUrl = (process.env.API_URL || '').replace(/\/$/, '');
+
+    return items
+      .flatMap((item) => [item.frontThumbnailUrl, item.backThumbnailUrl])
+      .filter((url): url is string => !!url)
+      .map((url) => (url.startsWith('/') ? `${apiUrl}${url}` : url));
+  }
+
+  /**
+   * Links an order placed from a cart to the cart's latest reminder when it
+   * was sent within ABANDONED_CART_RECOVERY_DAYS. Runs inside the checkout
+   * transaction.
+   * @param tx The checkout transaction
+   * @param cartId The cart the order was placed from
+   * @param orderId The new order
+   */
+  async markRecovered(
+    tx: Prisma.TransactionClient,
+    cartId: number,
+    orderId: number,
+  ) {
+    const reminder = await tx.abandonedCartReminder.findFirst({
+      where: {
+        cartId,
+        recoveredAt: null,
+        createdAt: {
+          gte: new Date(Date.now() - this.getRecoveryDays() * 24 * HOUR_MS),
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!reminder) return;
+
+    await tx.abandonedCartReminder.update({
+      where: { id: reminder.id },
+      data: { recoveredAt: new Date(), orderId },
+    });
+  }
+
+  /**
+   * Reports reminders sent in a period and how many of them turned into
+   * orders, with the value left in the carts and the revenue recovered.
+   * @param query Optional period bounds for the reminder dates
+   */
+  async getStats(query: AbandonedCartStatsQueryDto) {
+    const from = query.from ? new Date(query.from) : undefined;
+    const to = query.to ? new Date(query.to) : undefined;
+
+    if (from && to && from >= to) {
+      throw new BadRequestException('"from" must be earlier than "to"');
+    }
+
+    const createdAt: Prisma.DateTimeFilter = {};
+    if (from) createdAt.gte = from;
+    if (to) createdAt.lt = to;
+
+    const reminders = await this.prisma.abandonedCartReminder.findMany({
+      where: from || to ? { createdAt } : {},
+      select: {
+        subtotal: true,
+        emailSentAt: true,
+        recoveredAt: true,
+        order: { select: { totalPrice: true } },
+      },
+    });
+    const recovered = reminders.filter((reminder) => reminder.recoveredAt);
+
+    return {
+      reminders: reminders.length,
+      emailed: reminders.filter((reminder) => reminder.emailSentAt).length,
+      abandonedValue: roundMoney(
+        reminders.reduce((sum, reminder) => sum + reminder.subtotal, 0),
+      ),
+      recovered: recovered.length,
+      // Buyurtmaga aylangan eslatmalar ulushi, foizda
+      conversionRate:
+        reminders.length > 0
+          ? roundMoney((recovered.length / reminders.length) * 100)
+          : 0,
+      recoveredRevenue: roundMoney(
+        recovered.reduce(
+          (sum, reminder) => sum + (reminder.order?.totalPrice ?? 0),
+          0,
+        ),
+      ),
+    };
+  }
+
+  private isEmailEnabled(): boolean {
+    return this.configService.get<string>('ABANDONED_CART_EMAIL') === 'true';
+  }
+
+  private getIdleHours(): number {
+    const hours = Number(
+      this.configService.get<string>('ABANDONED_CART_IDLE_HOURS'),
+    );
+    return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_IDLE_HOURS;
+  }
+
+  // 0 avtomatik tekshiruvni o'chiradi
+  private getCheckMinutes(): number {
+    const raw = this.configService.get<string>('ABANDONED_CART_CHECK_MINUTES');
+    const minutes = Number(raw);
+    return raw !== undefined && Number.isFinite(minutes) && minutes >= 0
+      ? minutes
+      : DEFAULT_CHECK_MINUTES;
+  }
+
+  private getRecoveryDays(): number {
+    const days = Number(
+      this.configService.get<string>('ABANDONED_CART_RECOVERY_DAYS'),
+    );
+    return Number.isFinite(days) && days > 0 ? days : DEFAULT_RECOVERY_DAYS;
+  }
+}
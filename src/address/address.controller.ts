@@ -0,0 +1,68 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { AddressService } from './address.service';
+import { CreateAddressDto } from './dto/create-address.dto';
+import { UpdateAddressDto } from './dto/update-address.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+
+// Foydalanuvchi faqat o'z manzillari bilan ishlaydi
+@ApiTags('Addresses')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('addresses')
+export class AddressController {
+  constructor(private readonly addressService: AddressService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  create(@Body() dto: CreateAddressDto, @Request() req) {
+    return this.addressService.create(req.user.id, dto);
+  }
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  findAll(@Request() req) {
+    return this.addressService.findAll(req.user.id);
+  }
+
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  findOne(@Param('id', ParseIntPipe) id: number, @Request() req) {
+    return this.addressService.findOne(id, req.user.id);
+  }
+
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateAddressDto,
+    @Request() req,
+  ) {
+    return this.addressService.update(id, req.user.id, dto);
+  }
+
+  @Post(':id/default')
+  @HttpCode(HttpStatus.OK)
+  setDefault(@Param('id', ParseIntPipe) id: number, @Request() req) {
+    return this.addressService.setDefault(id, req.user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  remove(@Param('id', ParseIntPipe) id: number, @Request() req) {
+    return this.addressService.remove(id, req.user.id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { AddressService } from './address.service';
+import { AddressController } from './address.controller';
+
+@Module({
+  imports: [PrismaModule, ConfigModule, AuthModule],
+  controllers: [AddressController],
+  providers: [AddressService],
+  exports: [AddressService],
+})
+export class AddressModule {}
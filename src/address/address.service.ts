@@ -0,0 +1,176 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Address, Prisma, Region } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateAddressDto } from './dto/create-address.dto';
+import { UpdateAddressDto } from './dto/update-address.dto';
+import { CheckoutDto } from '../order/dto/checkout.dto';
+
+const MAX_ADDRESSES_PER_USER = 20;
+
+// Buyurtmaga nusxalanadigan manzil maydonlari
+export interface OrderAddress {
+  customerName: string;
+  customerPhone: string;
+  region: Region;
+  district: string | null;
+  address: string;
+  landmark: string | null;
+  addressId: number | null;
+}
+
+export type CheckoutAddressInput = Pick<
+  CheckoutDto,
+  | 'addressId'
+  | 'customerName'
+  | 'customerPhone'
+  | 'region'
+  | 'district'
+  | 'address'
+  | 'landmark'
+>;
+
+export function toOrderAddress(address: Address): OrderAddress {
+  return {
+    customerName: address.recipientName,
+    customerPhone: address.recipientPhone,
+    region: address.region,
+    district: address.district,
+    address: address.street,
+    landmark: address.landmark,
+    addressId: address.id,
+  };
+}
+
+@Injectable()
+export class AddressService {
+  constructor(private prisma: PrismaService) {}
+
+  // Asosiy manzil birinchi, keyin eng yangilari
+  findAll(userId: number) {
+    return this.prisma.address.findMany({
+      where: { userId },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  async findOne(id: number, userId: number) {
+    const address = await this.prisma.address.findFirst({
+      where: { id, userId },
+    });
+
+    if (!address) {
+      throw new NotFoundException(`Address with ID ${id} not found`);
+    }
+
+    return address;
+  }
+
+  /**
+   * Saves a new address. The first address becomes the default one.
+   * @param userId The owner
+   * @param dto The address
+   */
+  create(userId: number, dto: CreateAddressDto) {
+    return this.prisma.$transaction(async (tx) => {
+      const count = await tx.address.count({ where: { userId } });
+      if (count >= MAX_ADDRESSES_PER_USER) {
+        throw new BadRequestException(
+          `You can save up to ${MAX_ADDRESSES_PER_USER} addresses`,
+        );
+      }
+
+      const isDefault = dto.isDefault === true || count === 0;
+      if (isDefault) {
+        await this.clearDefault(tx, userId);
+      }
+
+      return tx.address.create({ data: { ...dto, userId, isDefault } });
+    });
+  }
+
+  async update(id: number, userId: number, dto: UpdateAddressDto) {
+    await this.findOne(id, userId);
+
+    return this.prisma.$transaction(async (tx) => {
+      if (dto.isDefault) {
+        await this.clearDefault(tx, userId);
+      }
+
+      return tx.address.update({ where: { id }, data: dto });
+    });
+  }
+
+  setDefault(id: number, userId: number) {
+    return this.update(id, userId, { isDefault: true });
+  }
+
+  // Buyurtmalardagi manzil nusxalari o'zgarmaydi, faqat addressId bo'shatiladi
+  async remove(id: number, userId: number) {
+    const address = await this.findOne(id, userId);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.address.delete({ where: { id } });
+
+      if (address.isDefault) {
+        const latest = await tx.address.findFirst({
+          where: { userId },
+          orderBy: { createdAt: 'desc' },
+        });
+        if (latest) {
+          await tx.address.update({
+            where: { id: latest.id },
+            data: { isDefault: true },
+          });
+        }
+      }
+    });
+
+    return { message: `Address with ID ${id} has been deleted` };
+  }
+
+  /**
+   * Works out the delivery address for checkout: a saved `addressId`, or the
+   * address typed at checkout. The result is copied onto the order.
+   * @param userId The customer, or null for a guest checkout
+   * @param details The validated checkout body
+   */
+  async resolveForCheckout(
+    userId: number | null,
+    details: CheckoutAddressInput,
+  ): Promise<OrderAddress> {
+    if (details.addressId !== undefined && details.addressId !== null) {
+      if (userId === null) {
+        throw new BadRequestException('Sign in to use a saved address');
+      }
+      return toOrderAddress(await this.findOne(details.addressId, userId));
+    }
+
+    const { customerName, customerPhone, region, address } = details;
+    if (!customerName || !customerPhone || !region || !address) {
+      throw new BadRequestException(
+        'Send addressId, or customerName, customerPhone, region and address',
+      );
+    }
+
+    return {
+      customerName: customerName.trim(),
+      customerPhone,
+      region,
+      district: details.district?.trim() || null,
+      address: address.trim(),
+      landmark: details.landmark?.trim() || null,
+      addressId: null,
+    };
+  }
+
+  private async clearDefault(tx: Prisma.TransactionClient, userId: number) {
+    await tx.address.updateMany({
+      where: { userId, isDefault: true },
+      data: { isDefault: false },
+    });
+  }
+}
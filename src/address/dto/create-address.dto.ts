@@ -0,0 +1,59 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsPhoneNumber,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Region } from '@prisma/client';
+
+export class CreateAddressDto {
+  @ApiPropertyOptional({ example: 'Uy' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  label?: string;
+
+  @ApiProperty({ example: 'Izzat Toirov' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  recipientName: string;
+
+  @ApiProperty({ example: '+998901234567' })
+  @IsPhoneNumber('UZ')
+  recipientPhone: string;
+
+  @ApiProperty({ enum: Region, example: Region.TASHKENT_CITY })
+  @IsEnum(Region)
+  region: Region;
+
+  @ApiProperty({ example: 'Chilonzor' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  district: string;
+
+  @ApiProperty({ example: "Bunyodkor ko'chasi, 12-uy, 45-xonadon" })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  street: string;
+
+  @ApiPropertyOptional({ example: 'Metro yonida, 3-podyezd' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  landmark?: string;
+
+  @ApiPropertyOptional({
+    description: 'Use this address by default at checkout',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
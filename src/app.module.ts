@@ -16,6 +16,12 @@ import { PrintFileModule } from './print-file/print-file.module';
 import { NotificationModule } from './notification/notification.module';
 import { SupabaseModule } from './supabase/supabase.module';
 import { SecurityModule } from './common/security/security.module';
+import { PaymentModule } from './payment/payment.module';
+import { CouponModule } from './coupon/coupon.module';
+import { ShippingModule } from './shipping/shipping.module';
+import { ShipmentModule } from './shipment/shipment.module';
+import { AddressModule } from './address/address.module';
+import { AbandonedCartModule } from './abandoned-cart/abandoned-cart.module';
 
 @Module({
   imports: [
@@ -43,6 +49,12 @@ import { SecurityModule } from './common/security/security.module';
     NotificationModule,
     SupabaseModule,
     SecurityModule,
+    PaymentModule,
+    CouponModule,
+    ShippingModule,
+    ShipmentModule,
+    AddressModule,
+    AbandonedCartModule,
   ],
 })
 export class AppModule {}
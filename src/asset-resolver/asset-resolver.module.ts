@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { AssetResolverService } from './asset-resolver.service';
+import { ASSET_STORAGE } from './asset-storage.interface';
+import { LocalAssetStorage } from './local-asset.storage';
+import { SupabaseAssetStorage } from './supabase-asset.storage';
+
+@Module({
+  imports: [ConfigModule, SupabaseModule],
+  providers: [
+    SupabaseAssetStorage,
+    LocalAssetStorage,
+    {
+      provide: ASSET_STORAGE,
+      inject: [ConfigService, SupabaseAssetStorage, LocalAssetStorage],
+      useFactory: (
+        configService: ConfigService,
+        supabaseStorage: SupabaseAssetStorage,
+        localStorage: LocalAssetStorage,
+      ) =>
+        configService.get<string>('ASSET_STORAGE_DRIVER') === 'local'
+          ? localStorage
+          : supabaseStorage,
+    },
+    AssetResolverService,
+  ],
+  exports: [AssetResolverService],
+})
+export class AssetResolverModule {}
@@ -0,0 +1,111 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ASSET_STORAGE } from './asset-storage.interface';
+import type { AssetStorage } from './asset-storage.interface';
+
+const DEFAULT_CACHE_MAX_MB = 100;
+
+@Injectable()
+export class AssetResolverService {
+  private readonly uploadPath = path.join(process.cwd(), 'uploads');
+  private readonly maxCacheBytes: number;
+
+  // Map qo'shilish tartibini saqlaydi: birinchi element eng eski ishlatilgani (LRU)
+  private readonly cache = new Map<string, Buffer>();
+  private cacheBytes = 0;
+  // Bir xil asset parallel so'ralganda faqat bitta yuklash bo'ladi
+  private readonly inFlight = new Map<string, Promise<Buffer>>();
+
+  constructor(
+    @Inject(ASSET_STORAGE) private storage: AssetStorage,
+    private supabaseService: SupabaseService,
+    configService: ConfigService,
+  ) {
+    const maxMb = Number(configService.get<string>('ASSET_CACHE_MAX_MB'));
+    this.maxCacheBytes =
+      (Number.isFinite(maxMb) && maxMb >= 0 ? maxMb : DEFAULT_CACHE_MAX_MB) *
+      1024 *
+      1024;
+  }
+
+  /**
+   * Returns the file contents of an asset URL.
+   * Supabase public URLs are read from the storage backend, /uploads/ paths
+   * from the local uploads folder. Throws instead of skipping missing assets.
+   * @param assetUrl URL stored in a design element
+   */
+  async resolve(assetUrl: string): Promise<Buffer> {
+    const cached = this.cache.get(assetUrl);
+    if (cached) {
+      this.cache.delete(assetUrl);
+      this.cache.set(assetUrl, cached);
+      return cached;
+    }
+
+    let pending = this.inFlight.get(assetUrl);
+    if (!pending) {
+      pending = this.load(assetUrl).finally(() =>
+        this.inFlight.delete(assetUrl),
+      );
+      this.inFlight.set(assetUrl, pending);
+    }
+
+    const buffer = await pending;
+    this.remember(assetUrl, buffer);
+    return buffer;
+  }
+
+  private async load(assetUrl: string): Promise<Buffer> {
+    const storagePath = this.supabaseService.getStoragePath(assetUrl);
+    if (storagePath) {
+      return this.storage.read(storagePath);
+    }
+
+    if (/^\/?uploads\//.test(assetUrl)) {
+      return this.readUpload(assetUrl);
+    }
+
+    throw new UnprocessableEntityException(
+      `Asset ${assetUrl} is not stored in a supported location`,
+    );
+  }
+
+  private async readUpload(assetUrl: string): Promise<Buffer> {
+    const relativePath = assetUrl.replace(/^\/?uploads\//, '');
+    const filePath = path.resolve(this.uploadPath, relativePath);
+    if (!filePath.startsWith(this.uploadPath + path.sep)) {
+      throw new NotFoundException(`Asset ${assetUrl} not found`);
+    }
+
+    try {
+      return await fs.readFile(filePath);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new NotFoundException(`Asset ${assetUrl} not found`);
+      }
+      throw error;
+    }
+  }
+
+  private remember(assetUrl: string, buffer: Buffer): void {
+    if (this.cache.has(assetUrl) || buffer.length > this.maxCacheBytes) return;
+
+    this.cache.set(assetUrl, buffer);
+    this.cacheBytes += buffer.length;
+
+    // Limitdan oshsa eng eski yozuvlarni chiqarib tashlaymiz
+    for (const [url, entry] of this.cache) {
+      if (this.cacheBytes <= this.maxCacheBytes) break;
+      this.cache.delete(url);
+      this.cacheBytes -= entry.length;
+    }
+  }
+}
@@ -0,0 +1,10 @@
+export const ASSET_STORAGE = 'ASSET_STORAGE';
+
+// Asset fayllarini o'qiydigan saqlash manbai (Supabase yoki lokal papka)
+export interface AssetStorage {
+  /**
+   * Reads a file by its path inside the storage bucket.
+   * Throws NotFoundException when the file does not exist.
+   */
+  read(storagePath: string): Promise<Buffer>;
+}
@@ -0,0 +1,60 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalAssetStorage } from './local-asset.storage';
+
+describe('LocalAssetStorage', () => {
+  let baseDir: string;
+  let storage: LocalAssetStorage;
+
+  beforeAll(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'asset-storage-'));
+    const root = path.join(baseDir, 'storage');
+    await fs.mkdir(path.join(root, 'designs'), { recursive: true });
+    await fs.writeFile(path.join(root, 'designs', 'logo.png'), 'logo');
+    await fs.writeFile(path.join(baseDir, 'secret.txt'), 'secret');
+    // Ildiz nomi bilan boshlanadigan qo'shni papka
+    await fs.mkdir(path.join(baseDir, 'storage-other'));
+    await fs.writeFile(path.join(baseDir, 'storage-other', 'file.txt'), 'x');
+
+    storage = new LocalAssetStorage(
+      new ConfigService({ ASSET_LOCAL_ROOT: root }),
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('reads a file inside the storage root', async () => {
+    await expect(storage.read('designs/logo.png')).resolves.toEqual(
+      Buffer.from('logo'),
+    );
+  });
+
+  it('reports a missing file as not found', async () => {
+    await expect(storage.read('designs/missing.png')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  it.each([
+    '../secret.txt',
+    'designs/../../secret.txt',
+    '../storage-other/file.txt',
+    '',
+    '.',
+  ])('rejects %p outside the storage root', async (storagePath) => {
+    await expect(storage.read(storagePath)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  it('rejects an absolute path', async () => {
+    await expect(
+      storage.read(path.join(baseDir, 'secret.txt')),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
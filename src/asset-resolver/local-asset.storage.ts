@@ -0,0 +1,39 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AssetStorage } from './asset-storage.interface';
+
+const DEFAULT_LOCAL_ROOT = 'uploads/storage';
+
+/**
+ * Reads bucket paths from a local directory instead of Supabase.
+ * Used in development and tests via ASSET_STORAGE_DRIVER=local.
+ */
+@Injectable()
+export class LocalAssetStorage implements AssetStorage {
+  private readonly root: string;
+
+  constructor(configService: ConfigService) {
+    this.root = path.resolve(
+      process.cwd(),
+      configService.get<string>('ASSET_LOCAL_ROOT') || DEFAULT_LOCAL_ROOT,
+    );
+  }
+
+  async read(storagePath: string): Promise<Buffer> {
+    const filePath = path.resolve(this.root, storagePath);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new NotFoundException(`Asset ${storagePath} not found`);
+    }
+
+    try {
+      return await fs.readFile(filePath);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new NotFoundException(`Asset ${storagePath} not found`);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AssetStorage } from './asset-storage.interface';
+
+@Injectable()
+export class SupabaseAssetStorage implements AssetStorage {
+  constructor(private supabaseService: SupabaseService) {}
+
+  read(storagePath: string): Promise<Buffer> {
+    return this.supabaseService.downloadFile(storagePath);
+  }
+}
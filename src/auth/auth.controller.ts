@@ -9,6 +9,7 @@ import {
   UseGuards,
   Request,
   Res,
+  Headers,
 } from '@nestjs/common';
 import { ThrottlerGuard } from '@nestjs/throttler';
 import { AuthGuard } from '@nestjs/passport';
@@ -30,12 +31,15 @@ import { CreateUserDto } from '../user/dto/create-user.dto';
 import { UserService } from '../user/user.service';
 import { UpdateUserDto } from '../user/dto/update-user.dto';
 import { UpdateProfileDto } from './dto/update-profile.dto';
+import { GuestCartService } from '../guest-cart/guest-cart.service';
+import { CART_TOKEN_HEADER } from '../guest-cart/cart-token.service';
 
 @Controller('auth')
 export class AuthController {
   constructor(
     private authService: AuthService,
     private userService: UserService,
+    private guestCartService: GuestCartService,
   ) {}
 
   private getCookieValue(req: ExpressRequest | any, cookieName: string): string | undefined {
@@ -56,9 +60,15 @@ export class AuthController {
 
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
-  async register(@Body() dto: RegisterAuthDto) {
+  async register(
+    @Body() dto: RegisterAuthDto,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ) {
     try {
-      return await this.authService.register(dto);
+      const result = await this.authService.register(dto);
+      // Mehmon sifatida to'ldirilgan savatcha yangi akkauntga o'tadi
+      await this.guestCartService.mergeFromToken(result.user.id, cartToken);
+      return result;
     } catch (error) {
       throw error;
     }
@@ -70,9 +80,11 @@ export class AuthController {
   async login(
     @Body() dto: LoginAuthDto,
     @Res({ passthrough: true }) res: Response,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
   ) {
     try {
       const tokens = await this.authService.login(dto);
+      await this.guestCartService.mergeFromToken(tokens.user.id, cartToken);
       res.cookie('refreshToken', tokens.refreshToken, {
         httpOnly: true,
         secure: process.env.NODE_ENV === 'production',
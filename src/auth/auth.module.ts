@@ -9,6 +9,7 @@ import { PrismaModule } from '../prisma/prisma.module';
 import { MailModule } from '../mail/mail.module';
 import { UserModule } from '../user/user.module';
 import { SecurityModule } from '../common/security/security.module';
+import { GuestCartModule } from '../guest-cart/guest-cart.module';
 
 @Module({
   imports: [
@@ -16,6 +17,7 @@ import { SecurityModule } from '../common/security/security.module';
     MailModule,
     UserModule,
     SecurityModule,
+    GuestCartModule,
     ConfigModule,
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.registerAsync({
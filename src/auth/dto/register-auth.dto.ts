@@ -8,7 +8,7 @@ import {
   MinLength,
   Matches,
 } from 'class-validator';
-import { Role } from '@prisma/client';
+import { Region, Role } from '@prisma/client';
 
 export class RegisterAuthDto {
   @ApiProperty({
@@ -47,12 +47,13 @@ export class RegisterAuthDto {
 
   @ApiProperty({
     description: 'Region of the user',
-    example: 'Tashkent',
+    enum: Region,
+    example: Region.TASHKENT_CITY,
     required: false,
   })
   @IsOptional()
-  @IsString()
-  region?: string;
+  @IsEnum(Region)
+  region?: Region;
 
   @ApiProperty({
     description: 'Address of the user',
@@ -1,5 +1,12 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString, IsEmail, IsPhoneNumber } from 'class-validator';
+import {
+  IsOptional,
+  IsString,
+  IsEmail,
+  IsPhoneNumber,
+  IsEnum,
+} from 'class-validator';
+import { Region } from '@prisma/client';
 
 export class UpdateProfileDto {
   @ApiPropertyOptional({ example: 'Izzat Toirov' })
@@ -22,8 +29,8 @@ export class UpdateProfileDto {
   @IsString()
   address?: string;
 
-  @ApiPropertyOptional({ example: 'Chilonzor' })
+  @ApiPropertyOptional({ enum: Region, example: Region.TASHKENT_CITY })
   @IsOptional()
-  @IsString()
-  region?: string;
+  @IsEnum(Region)
+  region?: Region;
 }
\ No newline at end of file
@@ -6,9 +6,16 @@ import { CartItemController } from './cart-item.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { CartModule } from '../cart/cart.module';
 import { AuthModule } from '../auth/auth.module';
+import { PrintFileModule } from '../print-file/print-file.module';
 
 @Module({
-  imports: [PrismaModule, CartModule, ConfigModule, AuthModule],
+  imports: [
+    PrismaModule,
+    CartModule,
+    ConfigModule,
+    AuthModule,
+    PrintFileModule,
+  ],
   controllers: [CartItemController],
   providers: [CartItemService],
 })
@@ -2,10 +2,15 @@ import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateCartItemDto } from './dto/create-cart-item.dto';
 import { UpdateCartRequestDto } from './dto/update-cart-item.dto';
+import { MockupService } from '../print-file/mockup.service';
+import { hashDesigns } from '../design/design-hash';
 
 @Injectable()
 export class CartItemService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private mockupService: MockupService,
+  ) {}
 
   // Faqat bitta itemni olish (Xavfsizlik uchun userId bilan tekshiramiz)
   async findOne(id: number, userId: number) {
@@ -26,24 +31,71 @@ export class CartItemService {
   // Itemni yangilash
   async update(id: number, userId: number, dto: UpdateCartRequestDto) {
     // Avval item egasini tekshiramiz
-    await this.findOne(id, userId);
+    const current = await this.findOne(id, userId);
+    const designHash = hashDesigns(
+      dto.frontDesign ?? current.frontDesign,
+      dto.backDesign ?? current.backDesign,
+    );
 
-    return await this.prisma.cartItem.update({
+    // Yangi dizayn savatchadagi boshqa qatornikiga teng bo'lsa, qatorlar birlashtiriladi
+    const duplicate = await this.prisma.cartItem.findFirst({
+      where: {
+        cartId: current.cartId,
+        variantId: current.variantId,
+        designHash,
+        id: { not: id },
+      },
+    });
+    if (duplicate) {
+      const [merged] = await this.prisma.$transaction([
+        this.prisma.cartItem.update({
+          where: { id: duplicate.id },
+          data: {
+            quantity: duplicate.quantity + (dto.quantity ?? current.quantity),
+            acceptedUnitPrice: null,
+            cart: { update: { updatedAt: new Date() } },
+          },
+        }),
+        this.prisma.cartItem.delete({ where: { id } }),
+      ]);
+      return merged;
+    }
+
+    const cartItem = await this.prisma.cartItem.update({
       where: { id },
       data: {
         quantity: dto.quantity,
         // Dizayn o'zgarsa (ixtiyoriy)
         frontDesign: dto.frontDesign as any,
         backDesign: dto.backDesign as any,
+        designHash,
+        // Bosma ustamasi dizaynga bog'liq: yangi narx savatchani ko'rganda qayd etiladi
+        acceptedUnitPrice: designHash === current.designHash ? undefined : null,
+        // Savatcha faolligi (tashlab ketilgan savatcha eslatmalari uchun)
+        cart: { update: { updatedAt: new Date() } },
       },
     });
+
+    // Dizayn o'zgarganda mockup qayta yaratiladi
+    if (dto.frontDesign || dto.backDesign) {
+      await this.mockupService.tryGenerateForCartItem(id);
+      return await this.prisma.cartItem.findUniqueOrThrow({ where: { id } });
+    }
+
+    return cartItem;
   }
 
   // Itemni o'chirish
   async remove(id: number, userId: number) {
-    await this.findOne(id, userId);
+    const { cartId } = await this.findOne(id, userId);
 
-    await this.prisma.cartItem.delete({ where: { id } });
+    await this.prisma.$transaction([
+      this.prisma.cartItem.delete({ where: { id } }),
+      this.prisma.cart.update({
+        where: { id: cartId },
+        data: { updatedAt: new Date() },
+      }),
+    ]);
     return { message: 'Item deleted successfully' };
   }
 }
\ No newline at end of file
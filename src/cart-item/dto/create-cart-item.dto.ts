@@ -1,67 +1,7 @@
-import {
-  IsInt,
-  IsOptional,
-  Min,
-  ValidateNested,
-  IsString,
-} from 'class-validator';
-import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Min, IsString } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-
-export class DesignDto {
-  @ApiPropertyOptional({
-    description: 'X coordinate for design placement',
-    example: 100,
-    type: Number,
-  })
-  @IsOptional()
-  x?: number;
-
-  @ApiPropertyOptional({
-    description: 'Y coordinate for design placement',
-    example: 200,
-    type: Number,
-  })
-  @IsOptional()
-  y?: number;
-
-  @ApiPropertyOptional({
-    description: 'Scale factor for design',
-    example: 1.2,
-    type: Number,
-  })
-  @IsOptional()
-  scale?: number;
-
-  @ApiPropertyOptional({
-    description: 'Rotation angle in degrees',
-    example: 45,
-    type: Number,
-  })
-  @IsOptional()
-  rotation?: number;
-
-  @ApiPropertyOptional({
-    description: 'Text content if design includes text',
-    example: 'Hello World',
-  })
-  @IsOptional()
-  text?: string;
-
-  @ApiPropertyOptional({
-    description: 'Color for design elements',
-    example: '#FF0000',
-  })
-  @IsOptional()
-  color?: string;
-
-  @ApiPropertyOptional({
-    description: 'Image URL for design element',
-    example: 'https://example.com/design.png',
-  })
-  @IsOptional()
-  imageUrl?: string;
-}
+import { DesignDocumentDto } from '../../design/dto/design-document.dto';
+import { IsDesignDocument } from '../../design/decorators/is-design-document.decorator';
 
 export class CreateCartItemDto {
   @ApiProperty({
@@ -92,22 +32,20 @@ export class CreateCartItemDto {
   quantity: number;
 
   @ApiPropertyOptional({
-    description: 'Front design coordinates and properties',
-    type: DesignDto,
+    description: 'Front design document',
+    type: DesignDocumentDto,
   })
   @IsOptional()
-  @ValidateNested()
-  @Type(() => DesignDto)
-  frontDesign?: DesignDto;
+  @IsDesignDocument()
+  frontDesign?: DesignDocumentDto;
 
   @ApiPropertyOptional({
-    description: 'Back design coordinates and properties',
-    type: DesignDto,
+    description: 'Back design document',
+    type: DesignDocumentDto,
   })
   @IsOptional()
-  @ValidateNested()
-  @Type(() => DesignDto)
-  backDesign?: DesignDto;
+  @IsDesignDocument()
+  backDesign?: DesignDocumentDto;
 
   @ApiPropertyOptional({
     description: 'Front design preview URL',
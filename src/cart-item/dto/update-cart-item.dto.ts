@@ -1,13 +1,7 @@
-import {
-  IsInt,
-  IsOptional,
-  Min,
-  ValidateNested,
-  IsString,
-} from 'class-validator';
-import { Type } from 'class-transformer';
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { DesignDto } from './create-cart-item.dto';
+import { IsInt, IsOptional, Min, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { DesignDocumentDto } from '../../design/dto/design-document.dto';
+import { IsDesignDocument } from '../../design/decorators/is-design-document.decorator';
 
 export class UpdateCartRequestDto {
   @ApiPropertyOptional({
@@ -41,25 +35,24 @@ export class UpdateCartRequestDto {
   quantity?: number;
 
   @ApiPropertyOptional({
-    description: 'Front design coordinates and properties',
-    type: DesignDto,
+    description: 'Front design document',
+    type: DesignDocumentDto,
   })
   @IsOptional()
-  @ValidateNested()
-  @Type(() => DesignDto)
-  frontDesign?: DesignDto;
+  @IsDesignDocument()
+  frontDesign?: DesignDocumentDto;
 
   @ApiPropertyOptional({
-    description: 'Back design coordinates and properties',
-    type: DesignDto,
+    description: 'Back design document',
+    type: DesignDocumentDto,
   })
   @IsOptional()
-  @ValidateNested()
-  @Type(() => DesignDto)
-  backDesign?: DesignDto;
+  @IsDesignDocument()
+  backDesign?: DesignDocumentDto;
 
   @ApiPropertyOptional({
-    description: 'Front design preview URL',
+    description: 'Ignored: previews are generated on the server',
+    deprecated: true,
     example: 'https://example.com/preview-front.jpg',
   })
   @IsOptional()
@@ -67,7 +60,8 @@ export class UpdateCartRequestDto {
   frontPreviewUrl?: string;
 
   @ApiPropertyOptional({
-    description: 'Back design preview URL',
+    description: 'Ignored: previews are generated on the server',
+    deprecated: true,
     example: 'https://example.com/preview-back.jpg',
   })
   @IsOptional()
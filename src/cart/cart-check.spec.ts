@@ -0,0 +1,148 @@
+import { ConflictException } from '@nestjs/common';
+import { PricingService } from '../pricing/pricing.service';
+import {
+  CheckedCartItem,
+  assertNoCartWarnings,
+  checkCartItems,
+} from './cart-check';
+
+// Har bir variantning hozirgi birlik narxini qaytaradigan soxta narxlash servisi
+function createPricing(prices: Record<number, number>) {
+  return {
+    priceItems: jest.fn((items: { variantId: number; quantity: number }[]) => {
+      const lines = items.map((item) => ({
+        variantId: item.variantId,
+        quantity: item.quantity,
+        basePrice: prices[item.variantId],
+        tierPrice: prices[item.variantId],
+        surcharges: [],
+        surchargeTotal: 0,
+        unitPrice: prices[item.variantId],
+        lineTotal: prices[item.variantId] * item.quantity,
+        tierMinQuantity: null,
+      }));
+      return Promise.resolve({
+        lines,
+        subtotal: lines.reduce((sum, line) => sum + line.lineTotal, 0),
+      });
+    }),
+  } as unknown as PricingService;
+}
+
+const item = (
+  id: number,
+  variantId: number | null,
+  quantity: number,
+  acceptedUnitPrice: number | null,
+  stock: number | null,
+): CheckedCartItem => ({
+  id,
+  variantId,
+  quantity,
+  frontDesign: null,
+  backDesign: null,
+  acceptedUnitPrice,
+  variant: stock === null ? null : { stock },
+});
+
+describe('checkCartItems', () => {
+  const pricing = createPricing({ 1: 100000, 2: 50000 });
+
+  it('has no warnings when prices and stock are as accepted', async () => {
+    const check = await checkCartItems(pricing, [
+      item(10, 1, 2, 100000, 5),
+      item(11, 2, 1, null, 1),
+    ]);
+
+    expect(check.warnings).toEqual([]);
+    expect(check.priced?.subtotal).toBe(250000);
+    expect(check.lines.map((line) => line.cartItemId)).toEqual([10, 11]);
+  });
+
+  it('reports a price that changed since the customer accepted it', async () => {
+    const { warnings } = await checkCartItems(pricing, [
+      item(10, 1, 1, 90000, 5),
+    ]);
+
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        cartItemId: 10,
+        code: 'PRICE_CHANGED',
+        previousUnitPrice: 90000,
+        unitPrice: 100000,
+      }),
+    ]);
+  });
+
+  it('reports a line whose variant was removed and leaves it out of the total', async () => {
+    const check = await checkCartItems(pricing, [
+      item(10, null, 1, 100000, null),
+      item(11, 2, 1, 50000, 3),
+    ]);
+
+    expect(check.warnings).toEqual([
+      expect.objectContaining({ cartItemId: 10, code: 'UNAVAILABLE' }),
+    ]);
+    expect(check.priced?.subtotal).toBe(50000);
+  });
+
+  it('reports an out of stock variant', async () => {
+    const { warnings } = await checkCartItems(pricing, [
+      item(10, 1, 1, 100000, 0),
+    ]);
+
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        cartItemId: 10,
+        code: 'OUT_OF_STOCK',
+        available: 0,
+      }),
+    ]);
+  });
+
+  it('counts lines of the same variant together against its stock', async () => {
+    const { warnings } = await checkCartItems(pricing, [
+      item(10, 1, 2, 100000, 3),
+      item(11, 1, 2, 100000, 3),
+    ]);
+
+    expect(
+      warnings.map((warning) => [warning.cartItemId, warning.code]),
+    ).toEqual([
+      [10, 'INSUFFICIENT_STOCK'],
+      [11, 'INSUFFICIENT_STOCK'],
+    ]);
+    expect(warnings[0].available).toBe(3);
+  });
+
+  it('does not price an empty cart', async () => {
+    const check = await checkCartItems(pricing, [
+      item(10, null, 1, null, null),
+    ]);
+
+    expect(check.priced).toBeNull();
+  });
+});
+
+describe('assertNoCartWarnings', () => {
+  const pricing = createPricing({ 1: 100000 });
+
+  it('blocks checkout until the changes are acknowledged', async () => {
+    const before = await checkCartItems(pricing, [item(10, 1, 4, 90000, 2)]);
+
+    let error: unknown;
+    try {
+      assertNoCartWarnings(before.warnings);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ConflictException);
+    expect((error as ConflictException).getResponse()).toMatchObject({
+      details: { warnings: before.warnings },
+    });
+
+    // POST /cart/acknowledge yangi narxni qabul qiladi va sonini zaxiraga tushiradi
+    const after = await checkCartItems(pricing, [item(10, 1, 2, 100000, 2)]);
+    expect(() => assertNoCartWarnings(after.warnings)).not.toThrow();
+  });
+});
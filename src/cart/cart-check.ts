@@ -0,0 +1,147 @@
+import { ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  PricedItems,
+  PricedLine,
+  PricingService,
+} from '../pricing/pricing.service';
+
+export type CartWarningCode =
+  | 'PRICE_CHANGED'
+  | 'UNAVAILABLE'
+  | 'OUT_OF_STOCK'
+  | 'INSUFFICIENT_STOCK';
+
+export interface CartWarning {
+  cartItemId: number;
+  code: CartWarningCode;
+  message: string;
+  previousUnitPrice?: number;
+  unitPrice?: number;
+  available?: number;
+}
+
+// Narx va zaxirani tekshirish uchun kerakli savatcha qatori
+export interface CheckedCartItem {
+  id: number;
+  variantId: number | null;
+  quantity: number;
+  frontDesign: unknown;
+  backDesign: unknown;
+  acceptedUnitPrice: number | null;
+  variant: { stock: number } | null;
+}
+
+export interface CartCheck {
+  // Varianti mavjud qator qolmagan bo'lsa null
+  priced: PricedItems | null;
+  lines: (PricedLine & { cartItemId: number })[];
+  warnings: CartWarning[];
+}
+
+/**
+ * Prices the cart lines whose variant still exists and compares them with
+ * what the customer last accepted. Price changes are reported against
+ * acceptedUnitPrice; lines of the same variant share its stock.
+ * @param items Cart lines with their variant, if it still exists
+ * @param client Optional transaction client so checkout checks inside its transaction
+ */
+export async function checkCartItems(
+  pricingService: PricingService,
+  items: CheckedCartItem[],
+  client?: Prisma.TransactionClient,
+): Promise<CartCheck> {
+  const available = items.filter(
+    (item): item is CheckedCartItem & { variantId: number } =>
+      item.variantId !== null && item.variant !== null,
+  );
+
+  const priced =
+    available.length > 0
+      ? await pricingService.priceItems(
+          available.map((item) => ({
+            variantId: item.variantId,
+            quantity: item.quantity,
+            frontDesign: item.frontDesign,
+            backDesign: item.backDesign,
+          })),
+          client,
+        )
+      : null;
+  const lines = (priced?.lines ?? []).map((line, index) => ({
+    cartItemId: available[index].id,
+    ...line,
+  }));
+
+  const unitPriceByItem = new Map(
+    lines.map((line) => [line.cartItemId, line.unitPrice]),
+  );
+  const quantityByVariant = new Map<number, number>();
+  for (const item of available) {
+    quantityByVariant.set(
+      item.variantId,
+      (quantityByVariant.get(item.variantId) ?? 0) + item.quantity,
+    );
+  }
+
+  const warnings = items.flatMap((item): CartWarning[] => {
+    if (item.variantId === null || item.variant === null) {
+      return [
+        {
+          cartItemId: item.id,
+          code: 'UNAVAILABLE',
+          message: 'This product is no longer available',
+        },
+      ];
+    }
+
+    const found: CartWarning[] = [];
+    const unitPrice = unitPriceByItem.get(item.id);
+    if (
+      unitPrice !== undefined &&
+      item.acceptedUnitPrice !== null &&
+      item.acceptedUnitPrice !== unitPrice
+    ) {
+      found.push({
+        cartItemId: item.id,
+        code: 'PRICE_CHANGED',
+        message: `Price changed from ${item.acceptedUnitPrice} to ${unitPrice}`,
+        previousUnitPrice: item.acceptedUnitPrice,
+        unitPrice,
+      });
+    }
+
+    const { stock } = item.variant;
+    if (stock <= 0) {
+      found.push({
+        cartItemId: item.id,
+        code: 'OUT_OF_STOCK',
+        message: 'Out of stock',
+        available: 0,
+      });
+    } else if (quantityByVariant.get(item.variantId)! > stock) {
+      found.push({
+        cartItemId: item.id,
+        code: 'INSUFFICIENT_STOCK',
+        message: `Only ${stock} left in stock`,
+        available: stock,
+      });
+    }
+
+    return found;
+  });
+
+  return { priced, lines, warnings };
+}
+
+// Checkout ogohlantirishlar tasdiqlanmaguncha (POST /cart/acknowledge) to'xtaydi
+export function assertNoCartWarnings(warnings: CartWarning[]) {
+  if (warnings.length > 0) {
+    throw new ConflictException({
+      message:
+        'Your cart has changed. Review the changes and acknowledge them before checkout',
+      error: 'Cart Changed',
+      details: { warnings },
+    });
+  }
+}
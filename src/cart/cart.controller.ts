@@ -9,39 +9,99 @@ import {
   Param,
   ParseIntPipe,
   Patch,
+  UseInterceptors,
+  Headers,
+  Res,
 } from '@nestjs/common';
-import { CartService } from './cart.service';
-import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
-import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import type { Response } from 'express';
+import { CartOwner, CartService } from './cart.service';
+import {
+  CART_TOKEN_HEADER,
+  CartTokenService,
+} from '../guest-cart/cart-token.service';
+import { GuestCartService } from '../guest-cart/guest-cart.service';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { OptionalJwtAuthGuard } from '../common/guards/optional-jwt-auth.guard';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { UpdateCartItemDto } from './dto/update-cart-item.dto';
+import { ApplyCouponDto } from '../coupon/dto/apply-coupon.dto';
+import { CheckoutDto } from '../order/dto/checkout.dto';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
 
 @ApiTags('Cart')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@ApiHeader({
+  name: CART_TOKEN_HEADER,
+  required: false,
+  description: 'Guest cart token, returned in the same header',
+})
+@UseGuards(OptionalJwtAuthGuard)
 @Controller('cart')
 export class CartController {
-  constructor(private readonly cartService: CartService) {}
+  constructor(
+    private readonly cartService: CartService,
+    private readonly cartTokenService: CartTokenService,
+    private readonly guestCartService: GuestCartService,
+  ) {}
+
+  // Tizimga kirgan foydalanuvchi yoki X-Cart-Token bilan kelgan mehmon
+  private async owner(req, cartToken?: string): Promise<CartOwner> {
+    if (req.user) {
+      // Kirgandan keyin ham mehmon tokeni yuborilsa, savatchalar birlashtiriladi
+      await this.guestCartService.mergeFromToken(req.user.id, cartToken);
+      return { userId: req.user.id };
+    }
+
+    return { guestCartId: await this.cartTokenService.verify(cartToken) };
+  }
+
+  // Mehmonning savatchasi bo'lmasa yaratiladi, yangi token javob sarlavhasida qaytadi.
+  // Faqat savatchaga yozadigan so'rovlar uchun: o'qish savatcha yaratmaydi
+  private async ownerWithCart(
+    req,
+    res: Response,
+    cartToken?: string,
+  ): Promise<CartOwner> {
+    const owner = await this.owner(req, cartToken);
+    if ('userId' in owner) return owner;
+
+    const cartId = await this.cartService.ensureGuestCart(owner.guestCartId);
+    if (cartId !== owner.guestCartId) {
+      res.setHeader(
+        CART_TOKEN_HEADER,
+        await this.cartTokenService.sign(cartId),
+      );
+    }
+    return { guestCartId: cartId };
+  }
 
   @Get()
   @ApiOperation({ summary: "Foydalanuvchining shaxsiy savatchasini olish" })
-  async getMyCart(@Req() req) {
+  async getMyCart(@Req() req, @Headers(CART_TOKEN_HEADER) cartToken?: string) {
     // Service-dagi yangi getMyCart metodini chaqiramiz
-    return this.cartService.getMyCart(req.user.id);
+    return this.cartService.getMyCart(await this.owner(req, cartToken));
   }
 
   @Post('add')
   @ApiOperation({ summary: "Savatchaga mahsulot qo'shish yoki sonini oshirish" })
-  async addItem(@Req() req, @Body() dto: AddToCartDto) {
+  async addItem(
+    @Req() req,
+    @Res({ passthrough: true }) res: Response,
+    @Body() dto: AddToCartDto,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ) {
     return this.cartService.addItemToCart(
-      req.user.id,
+      await this.ownerWithCart(req, res, cartToken),
       dto.variantId,
       dto.quantity,
       {
         frontDesign: dto.frontDesign,
         backDesign: dto.backDesign,
-        frontPreviewUrl: dto.frontPreviewUrl,
-        backPreviewUrl: dto.backPreviewUrl,
       },
     );
   }
@@ -52,29 +112,83 @@ export class CartController {
     @Req() req,
     @Param('id', ParseIntPipe) itemId: number,
     @Body() dto: UpdateCartItemDto,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
   ) {
-    return this.cartService.updateCartItem(req.user.id, itemId, dto.quantity);
+    return this.cartService.updateCartItem(
+      await this.owner(req, cartToken),
+      itemId,
+      dto.quantity,
+    );
   }
 
   @Delete('item/:id')
   @ApiOperation({ summary: "Savatchadan bitta elementni o'chirish" })
-  async removeItem(@Req() req, @Param('id', ParseIntPipe) itemId: number) {
-    return this.cartService.removeItem(req.user.id, itemId);
+  async removeItem(
+    @Req() req,
+    @Param('id', ParseIntPipe) itemId: number,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ) {
+    return this.cartService.removeItem(
+      await this.owner(req, cartToken),
+      itemId,
+    );
   }
 
   @Delete('clear')
   @ApiOperation({ summary: "Savatchani to'liq bo'shatish" })
-  async clearCart(@Req() req) {
-    return this.cartService.clearCart(req.user.id);
+  async clearCart(@Req() req, @Headers(CART_TOKEN_HEADER) cartToken?: string) {
+    return this.cartService.clearCart(await this.owner(req, cartToken));
+  }
+
+  @Post('coupon')
+  @ApiOperation({ summary: "Savatchaga promo kod qo'llash" })
+  async applyCoupon(
+    @Req() req,
+    @Body() dto: ApplyCouponDto,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ) {
+    return this.cartService.applyCoupon(
+      await this.owner(req, cartToken),
+      dto.code,
+    );
+  }
+
+  @Delete('coupon')
+  @ApiOperation({ summary: 'Savatchadan promo kodni olib tashlash' })
+  async removeCoupon(
+    @Req() req,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ) {
+    return this.cartService.removeCoupon(await this.owner(req, cartToken));
+  }
+
+  @Post('acknowledge')
+  @ApiOperation({
+    summary:
+      "Savatchadagi narx, mavjudlik va zaxira o'zgarishlarini tasdiqlash",
+  })
+  async acknowledgeChanges(
+    @Req() req,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ) {
+    return this.cartService.acknowledgeChanges(
+      await this.owner(req, cartToken),
+    );
   }
 
   @Post('checkout')
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiOperation({ summary: "Savatchani buyurtmaga aylantirish (Sotib olish)" })
-  async checkout(@Req() req, @Body() orderDetails: any) {
-    // Tranzaksiya orqali Order yaratadi va savatchani tozalaydi
+  async checkout(
+    @Req() req,
+    @Body() orderDetails: CheckoutDto,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ) {
+    // Tranzaksiya orqali Order yaratadi va savatchani tozalaydi.
+    // Mehmon buyurtmasi userId = null bilan yaratiladi
     return this.cartService.convertCartToOrder(
-      req.user.id,
+      await this.owner(req, cartToken),
       orderDetails,
     );
   }
-}
\ No newline at end of file
+}
@@ -7,6 +7,15 @@ import { PrismaModule } from '../prisma/prisma.module';
 import { OrderModule } from '../order/order.module';
 import { AuthModule } from '../auth/auth.module';
 import { SecurityModule } from '../common/security/security.module';
+import { PricingModule } from '../pricing/pricing.module';
+import { StockModule } from '../stock/stock.module';
+import { PrintFileModule } from '../print-file/print-file.module';
+import { CouponModule } from '../coupon/coupon.module';
+import { ShippingModule } from '../shipping/shipping.module';
+import { AddressModule } from '../address/address.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { AbandonedCartModule } from '../abandoned-cart/abandoned-cart.module';
+import { GuestCartModule } from '../guest-cart/guest-cart.module';
 
 @Module({
   imports: [
@@ -15,6 +24,15 @@ import { SecurityModule } from '../common/security/security.module';
     ConfigModule,
     AuthModule,
     SecurityModule,
+    PricingModule,
+    StockModule,
+    PrintFileModule,
+    CouponModule,
+    ShippingModule,
+    AddressModule,
+    IdempotencyModule,
+    AbandonedCartModule,
+    GuestCartModule,
   ],
   controllers: [CartController],
   providers: [CartService],
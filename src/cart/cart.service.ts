@@ -4,10 +4,48 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import {
+  PricingService,
+  roundMoney,
+  toPriceBreakdown,
+} from '../pricing/pricing.service';
+import { StockService } from '../stock/stock.service';
+import { MockupService } from '../print-file/mockup.service';
+import { isPrepaid, resolvePaymentMethod } from '../order/payment-method';
+import { CouponDiscount, CouponService } from '../coupon/coupon.service';
+import { ShippingService, toOrderShipping } from '../shipping/shipping.service';
+import { AddressService } from '../address/address.service';
+import { CheckoutDto } from '../order/dto/checkout.dto';
+import { hashDesigns } from '../design/design-hash';
+import { AbandonedCartService } from '../abandoned-cart/abandoned-cart.service';
+import { OrderService } from '../order/order.service';
+import {
+  CheckedCartItem,
+  assertNoCartWarnings,
+  checkCartItems,
+} from './cart-check';
+
+// Savatcha egasi: tizimga kirgan foydalanuvchi yoki X-Cart-Token bilan kelgan mehmon.
+// Mehmonning hali savatchasi bo'lmasa, guestCartId null
+export type CartOwner = { userId: number } | { guestCartId: number | null };
+
+export function ownerUserId(owner: CartOwner): number | null {
+  return 'userId' in owner ? owner.userId : null;
+}
 
 @Injectable()
 export class CartService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private pricingService: PricingService,
+    private stockService: StockService,
+    private mockupService: MockupService,
+    private couponService: CouponService,
+    private shippingService: ShippingService,
+    private addressService: AddressService,
+    private abandonedCartService: AbandonedCartService,
+    private orderService: OrderService,
+  ) {}
 
   // Savatchani barcha itemlari va bog'liqliklari bilan olish uchun umumiy "include" obyekti
   private readonly cartInclude = {
@@ -23,158 +61,658 @@ export class CartService {
   };
 
   // Savatcha yaratish va darhol hamma narsani include qilib qaytarish
-  private async create(userId: number) {
+  private async create(userId: number | null) {
     return await this.prisma.cart.create({
       data: { userId },
       include: this.cartInclude, // TypeScript xatosini oldini olish uchun
     });
   }
 
-  // Foydalanuvchining o'z savatchasini olish
-  async getMyCart(userId: number) {
-    let cart = await this.prisma.cart.findFirst({
-      where: { userId },
+  // Egasining savatchasi; mehmon faqat userId'siz savatchani ocha oladi
+  private async findCartId(owner: CartOwner): Promise<number | null> {
+    if ('userId' in owner) {
+      const cart = await this.prisma.cart.findFirst({
+        where: { userId: owner.userId },
+        select: { id: true },
+      });
+      return cart?.id ?? null;
+    }
+
+    if (owner.guestCartId === null) return null;
+
+    const cart = await this.prisma.cart.findFirst({
+      where: { id: owner.guestCartId, userId: null },
+      select: { id: true },
+    });
+    return cart?.id ?? null;
+  }
+
+  // Qatorlar o'zgarganda ham savatcha faol hisoblanadi (tashlab ketilgan savatcha eslatmalari uchun)
+  private async touch(cartId: number) {
+    await this.prisma.cart.update({
+      where: { id: cartId },
+      data: { updatedAt: new Date() },
+    });
+  }
+
+  // Agar savatcha yo'q bo'lsa, yangi yaratamiz
+  private async findOrCreateCartId(owner: CartOwner): Promise<number> {
+    return (
+      (await this.findCartId(owner)) ??
+      (await this.create(ownerUserId(owner))).id
+    );
+  }
+
+  /**
+   * Returns the id of a guest's cart, creating a new one when the token
+   * pointed to no cart (expired, merged or never created).
+   */
+  async ensureGuestCart(guestCartId: number | null): Promise<number> {
+    return this.findOrCreateCartId({ guestCartId });
+  }
+
+  // Foydalanuvchining (yoki mehmonning) o'z savatchasini olish
+  async getMyCart(owner: CartOwner) {
+    // Mehmon savatchasi faqat birinchi mahsulot qo'shilganda yaratiladi,
+    // o'qish uchun saqlanmagan bo'sh savatcha qaytariladi
+    const cartId =
+      'userId' in owner
+        ? await this.findOrCreateCartId(owner)
+        : await this.findCartId(owner);
+    if (cartId === null) {
+      return this.emptyGuestCart();
+    }
+
+    const cart = await this.prisma.cart.findUniqueOrThrow({
+      where: { id: cartId },
       include: this.cartInclude,
     });
+    const summary = await this.getSummary(cart, ownerUserId(owner));
+
+    // Narxi hali qayd etilmagan qatorlar (eski, birlashtirilgan yoki dizayni
+    // o'zgargan) uchun mijoz hozirgi narxni ko'rgan hisoblanadi
+    const unaccepted = new Set(
+      cart.items
+        .filter((item) => item.acceptedUnitPrice === null)
+        .map((item) => item.id),
+    );
+    await this.acceptPrices(
+      summary.lines.filter((line) => unaccepted.has(line.cartItemId)),
+    );
+
+    return {
+      ...cart,
+      items: cart.items.map((item) => ({
+        ...item,
+        acceptedUnitPrice:
+          item.acceptedUnitPrice ??
+          summary.lines.find((line) => line.cartItemId === item.id)
+            ?.unitPrice ??
+          null,
+      })),
+      summary,
+    };
+  }
+
+  // getMyCart bilan bir xil ko'rinish; id bo'sh, chunki savatcha hali yo'q
+  private async emptyGuestCart() {
+    return {
+      id: null,
+      userId: null,
+      couponCode: null,
+      updatedAt: null,
+      items: [],
+      summary: await this.getSummary({ couponCode: null, items: [] }, null),
+    };
+  }
+
+  // Mijoz ko'rgan (tasdiqlagan) narx qatorga yoziladi
+  private async acceptPrices(
+    lines: { cartItemId: number; unitPrice: number }[],
+  ) {
+    for (const line of lines) {
+      await this.prisma.cartItem.update({
+        where: { id: line.cartItemId },
+        data: { acceptedUnitPrice: line.unitPrice },
+      });
+    }
+  }
+
+  // Savatcha qatorlarining hozirgi birlik narxlari
+  private async currentUnitPrices(cartId: number) {
+    const items = await this.prisma.cartItem.findMany({
+      where: { cartId },
+      include: { variant: true },
+    });
+    const { lines } = await checkCartItems(this.pricingService, items);
+
+    return new Map(lines.map((line) => [line.cartItemId, line.unitPrice]));
+  }
+
+  /**
+   * Records the prices the customer sees after changing their own cart.
+   * Adding or removing lines can move other lines to another wholesale tier;
+   * those new prices are accepted too. Lines that already had an
+   * unacknowledged price change keep it.
+   * @param pricesBefore Unit prices from currentUnitPrices before the change
+   */
+  private async acceptPriceUpdates(
+    cartId: number,
+    pricesBefore: Map<number, number>,
+  ) {
+    const pricesAfter = await this.currentUnitPrices(cartId);
+    const items = await this.prisma.cartItem.findMany({
+      where: { cartId },
+      select: { id: true, acceptedUnitPrice: true },
+    });
 
-    // Agar savatcha yo'q bo'lsa, yangi yaratamiz
-    if (!cart) {
-      cart = await this.create(userId);
+    await this.acceptPrices(
+      items
+        .filter((item) => {
+          const unitPrice = pricesAfter.get(item.id);
+          if (unitPrice === undefined || unitPrice === item.acceptedUnitPrice) {
+            return false;
+          }
+          return (
+            item.acceptedUnitPrice === null ||
+            item.acceptedUnitPrice === pricesBefore.get(item.id)
+          );
+        })
+        .map((item) => ({
+          cartItemId: item.id,
+          unitPrice: pricesAfter.get(item.id)!,
+        })),
+    );
+  }
+
+  // Savatchaga promo kod qo'llash: kod hozirgi savatchaga mos kelishi shart
+  async applyCoupon(owner: CartOwner, code: string) {
+    const cartId = await this.findCartId(owner);
+    const cart =
+      cartId === null
+        ? null
+        : await this.prisma.cart.findUnique({
+            where: { id: cartId },
+            include: { items: { include: { variant: true } } },
+          });
+
+    // Kupon faqat mavjud mahsulotlar summasiga tekshiriladi
+    const { priced } = cart
+      ? await checkCartItems(this.pricingService, cart.items)
+      : { priced: null };
+    if (!cart || !priced) {
+      throw new BadRequestException('Cart is empty');
     }
 
-    return cart;
+    const { coupon } = await this.couponService.evaluate(
+      code,
+      priced,
+      ownerUserId(owner),
+    );
+
+    await this.prisma.cart.update({
+      where: { id: cart.id },
+      data: { couponCode: coupon.code },
+    });
+
+    return this.getMyCart(owner);
   }
 
-  // Savatchaga mahsulot qo'shish
-  async addItemToCart(userId: number, variantId: number, quantity: number, designData?: any) {
-    let cart = await this.prisma.cart.findFirst({ where: { userId } });
-    
-    if (!cart) {
-      cart = await this.create(userId);
+  async removeCoupon(owner: CartOwner) {
+    const cartId = await this.findCartId(owner);
+    if (cartId !== null) {
+      await this.prisma.cart.update({
+        where: { id: cartId },
+        data: { couponCode: null },
+      });
     }
 
+    return this.getMyCart(owner);
+  }
+
+  // Savatcha summasi: kupon endi mos kelmasa, sababi couponError'da ko'rsatiladi.
+  // Narx, mavjudlik va zaxira o'zgarishlari warnings'da qaytadi
+  private async getSummary(
+    cart: {
+      couponCode: string | null;
+      items: CheckedCartItem[];
+    },
+    userId: number | null,
+  ) {
+    let discount: CouponDiscount | null = null;
+    let couponError: string | null = null;
+
+    // Ulgurji pog'ona va bosma ustamalari har bir element uchun ko'rsatiladi.
+    // Varianti o'chirilgan qatorlar summaga kirmaydi
+    const { priced, lines, warnings } = await checkCartItems(
+      this.pricingService,
+      cart.items,
+    );
+    const subtotal = priced?.subtotal ?? 0;
+
+    if (priced) {
+      if (cart.couponCode) {
+        try {
+          discount = await this.couponService.evaluate(
+            cart.couponCode,
+            priced,
+            userId,
+          );
+        } catch (error) {
+          if (!(error instanceof BadRequestException)) throw error;
+          couponError = error.message;
+        }
+      }
+    }
+
+    const discountTotal = discount?.amount ?? 0;
+
+    return {
+      lines,
+      subtotal,
+      discountTotal,
+      total: roundMoney(subtotal - discountTotal),
+      coupon: cart.couponCode
+        ? {
+            code: cart.couponCode,
+            description: discount?.coupon.description ?? null,
+            type: discount?.coupon.type ?? null,
+            value: discount?.coupon.value ?? null,
+            amount: discountTotal,
+            error: couponError,
+          }
+        : null,
+      warnings,
+    };
+  }
+
+  // Savatchaga mahsulot qo'shish
+  async addItemToCart(
+    owner: CartOwner,
+    variantId: number,
+    quantity: number,
+    designData?: any,
+  ) {
+    const cartId = await this.findOrCreateCartId(owner);
+
     // Variant bormi?
     const variant = await this.prisma.variant.findUnique({ where: { id: variantId } });
     if (!variant) throw new NotFoundException('Product variant not found');
 
-    // Prisma JSON fields cannot be reliably compared using complex objects in `where`.
-    // We only dedupe by cartId + variantId; if a matching item exists, we increase quantity.
-    const existingItem = await this.prisma.cartItem.findFirst({
+    // Bir xil variant va bir xil dizayn bitta qatorga birlashadi, boshqa dizayn alohida qator bo'ladi
+    const designHash = hashDesigns(
+      designData?.frontDesign,
+      designData?.backDesign,
+    );
+    const existingItem = await this.prisma.cartItem.findUnique({
       where: {
-        cartId: cart.id,
-        variantId,
+        cartId_variantId_designHash: { cartId, variantId, designHash },
       },
     });
 
+    const pricesBefore = await this.currentUnitPrices(cartId);
+
     if (existingItem) {
-      return await this.prisma.cartItem.update({
+      await this.prisma.cartItem.update({
         where: { id: existingItem.id },
         data: { quantity: existingItem.quantity + quantity },
       });
+      await this.acceptPriceUpdates(cartId, pricesBefore);
+      await this.touch(cartId);
+
+      return await this.prisma.cartItem.findUniqueOrThrow({
+        where: { id: existingItem.id },
+      });
     }
 
-    return await this.prisma.cartItem.create({
+    const cartItem = await this.prisma.cartItem.create({
       data: {
-        cartId: cart.id,
+        cartId,
         variantId,
         quantity,
         frontDesign: designData?.frontDesign,
         backDesign: designData?.backDesign,
-        frontPreviewUrl: designData?.frontPreviewUrl,
-        backPreviewUrl: designData?.backPreviewUrl,
+        designHash,
       },
     });
+    await this.acceptPriceUpdates(cartId, pricesBefore);
+    await this.touch(cartId);
+
+    // Preview va thumbnail serverda variant rasmiga dizaynni joylab yaratiladi
+    await this.mockupService.tryGenerateForCartItem(cartItem.id);
+
+    return await this.prisma.cartItem.findUniqueOrThrow({
+      where: { id: cartItem.id },
+    });
   }
 
-  // Savatchadagi item miqdorini o'zgartirish
-  async updateCartItem(userId: number, itemId: number, quantity: number) {
-    const cartItem = await this.prisma.cartItem.findFirst({
-      where: {
-        id: itemId,
-        cart: { userId },
+  /**
+   * Fills designHash for cart lines saved before it existed. Lines of the
+   * same cart that turn out to have the same variant and designs are merged
+   * into the oldest one. Runs on startup and is a no-op once all lines have
+   * a hash.
+   * @returns The number of lines processed
+   */
+  async backfillDesignHashes() {
+    const items = await this.prisma.cartItem.findMany({
+      where: { designHash: null },
+      select: {
+        id: true,
+        cartId: true,
+        variantId: true,
+        quantity: true,
+        frontDesign: true,
+        backDesign: true,
       },
+      orderBy: { id: 'asc' },
     });
 
+    for (const item of items) {
+      const designHash = hashDesigns(item.frontDesign, item.backDesign);
+
+      await this.prisma.$transaction(async (tx) => {
+        const duplicate =
+          item.variantId === null
+            ? null
+            : await tx.cartItem.findUnique({
+                where: {
+                  cartId_variantId_designHash: {
+                    cartId: item.cartId,
+                    variantId: item.variantId,
+                    designHash,
+                  },
+                },
+              });
+
+        if (duplicate) {
+          await tx.cartItem.update({
+            where: { id: duplicate.id },
+            data: { quantity: duplicate.quantity + item.quantity },
+          });
+          await tx.cartItem.delete({ where: { id: item.id } });
+        } else {
+          await tx.cartItem.update({
+            where: { id: item.id },
+            data: { designHash },
+          });
+        }
+      });
+    }
+
+    return items.length;
+  }
+
+  // Faqat egasining savatchasidagi elementni topish
+  private async findOwnItem(owner: CartOwner, itemId: number) {
+    const cartId = await this.findCartId(owner);
+    const cartItem =
+      cartId === null
+        ? null
+        : await this.prisma.cartItem.findFirst({
+            where: { id: itemId, cartId },
+          });
+
     if (!cartItem) throw new NotFoundException('Cart item not found');
+    return cartItem;
+  }
+
+  // Savatchadagi item miqdorini o'zgartirish
+  async updateCartItem(owner: CartOwner, itemId: number, quantity: number) {
+    const { cartId } = await this.findOwnItem(owner, itemId);
+    const pricesBefore = await this.currentUnitPrices(cartId);
 
     if (quantity <= 0) {
-      return await this.prisma.cartItem.delete({ where: { id: itemId } });
+      const removed = await this.prisma.cartItem.delete({
+        where: { id: itemId },
+      });
+      await this.acceptPriceUpdates(cartId, pricesBefore);
+      await this.touch(cartId);
+      return removed;
     }
 
-    return await this.prisma.cartItem.update({
+    await this.prisma.cartItem.update({
       where: { id: itemId },
       data: { quantity },
     });
+    await this.acceptPriceUpdates(cartId, pricesBefore);
+    await this.touch(cartId);
+
+    return await this.prisma.cartItem.findUniqueOrThrow({
+      where: { id: itemId },
+    });
   }
 
   // Savatchadan bitta elementni o'chirish
-  async removeItem(userId: number, itemId: number) {
-    const cartItem = await this.prisma.cartItem.findFirst({
-      where: {
-        id: itemId,
-        cart: { userId },
-      },
+  async removeItem(owner: CartOwner, itemId: number) {
+    const { cartId } = await this.findOwnItem(owner, itemId);
+    const pricesBefore = await this.currentUnitPrices(cartId);
+
+    const removed = await this.prisma.cartItem.delete({
+      where: { id: itemId },
     });
+    await this.acceptPriceUpdates(cartId, pricesBefore);
+    await this.touch(cartId);
+    return removed;
+  }
 
-    if (!cartItem) throw new NotFoundException('Cart item not found');
+  /**
+   * Applies the changes reported in the cart summary warnings: lines whose
+   * variant was deleted are removed, quantities are lowered to the stock
+   * left (out of stock lines are removed) and current prices are accepted.
+   * Checkout is refused until this is done.
+   */
+  async acknowledgeChanges(owner: CartOwner) {
+    const cartId = await this.findCartId(owner);
+
+    if (cartId !== null) {
+      const items = await this.prisma.cartItem.findMany({
+        where: { cartId },
+        include: { variant: true },
+        orderBy: { id: 'asc' },
+      });
 
-    return await this.prisma.cartItem.delete({ where: { id: itemId } });
+      // Bir variantning zaxirasi qatorlar orasida eskisidan boshlab taqsimlanadi
+      const stockLeft = new Map<number, number>();
+      for (const item of items) {
+        if (item.variantId === null || !item.variant) {
+          await this.prisma.cartItem.delete({ where: { id: item.id } });
+          continue;
+        }
+
+        const left = stockLeft.get(item.variantId) ?? item.variant.stock;
+        const quantity = Math.min(item.quantity, Math.max(left, 0));
+        stockLeft.set(item.variantId, left - quantity);
+
+        if (quantity === 0) {
+          await this.prisma.cartItem.delete({ where: { id: item.id } });
+        } else if (quantity !== item.quantity) {
+          await this.prisma.cartItem.update({
+            where: { id: item.id },
+            data: { quantity },
+          });
+        }
+      }
+
+      // Miqdor kamaygani ulgurji pog'onani o'zgartirishi mumkin, shuning uchun narx keyin olinadi
+      const prices = await this.currentUnitPrices(cartId);
+      await this.acceptPrices(
+        [...prices].map(([cartItemId, unitPrice]) => ({
+          cartItemId,
+          unitPrice,
+        })),
+      );
+      await this.touch(cartId);
+    }
+
+    return this.getMyCart(owner);
   }
 
-  // Savatchani Orderga o'tkazish
-  async convertCartToOrder(userId: number, shippingDetails: any) {
-    const cart = await this.prisma.cart.findFirst({
-      where: { userId },
-      include: { items: { include: { variant: true } } },
-    });
+  /**
+   * Turns the owner's cart into an order. This is the only checkout flow:
+   * POST /cart/checkout and POST /orders/checkout both end up here.
+   */
+  async convertCartToOrder(owner: CartOwner, shippingDetails: CheckoutDto) {
+    // Mehmon buyurtmasi userId'siz yaratiladi
+    const userId = ownerUserId(owner);
+    const paymentMethod = resolvePaymentMethod(shippingDetails.paymentMethod);
 
-    if (!cart || cart.items.length === 0) {
+    // Onlayn to'lov buyurtma egasini talab qiladi, mehmon faqat naqd to'laydi
+    if (userId === null && isPrepaid(paymentMethod)) {
+      throw new BadRequestException(
+        'Guest orders are paid cash on delivery; sign in to pay online',
+      );
+    }
+
+    const cartId = await this.findCartId(owner);
+    if (cartId === null) {
       throw new BadRequestException('Cart is empty');
     }
 
-    const totalPrice = cart.items.reduce(
-      (sum, item) => sum + (item.variant?.price || 0) * item.quantity,
-      0,
+    // Manzil buyurtmaga nusxalanadi: keyingi tahrirlar tarixni o'zgartirmaydi
+    const destination = await this.addressService.resolveForCheckout(
+      userId,
+      shippingDetails,
     );
 
-    return await this.prisma.$transaction(async (tx) => {
+    const { order, replayed } = await this.prisma.$transaction(async (tx) => {
+      // Savatcha qatori bloklanadi: parallel checkout'lar navbat bilan bajariladi
+      // va ikkinchisi birinchisi bo'shatgan savatchani ko'radi
+      await tx.cart.update({
+        where: { id: cartId },
+        data: { updatedAt: new Date() },
+      });
+
+      // Qayta yuborilgan checkout avval yaratilgan buyurtmani qaytaradi
+      if (shippingDetails.idempotencyKey) {
+        const existing = await tx.order.findUnique({
+          where:
+            userId !== null
+              ? {
+                  userId_idempotencyKey: {
+                    userId,
+                    idempotencyKey: shippingDetails.idempotencyKey,
+                  },
+                }
+              : {
+                  guestCartId_idempotencyKey: {
+                    guestCartId: cartId,
+                    idempotencyKey: shippingDetails.idempotencyKey,
+                  },
+                },
+        });
+        if (existing) return { order: existing, replayed: true };
+      }
+
+      const cart = await tx.cart.findUniqueOrThrow({
+        where: { id: cartId },
+        include: { items: { include: { variant: true } } },
+      });
+      if (cart.items.length === 0) {
+        throw new BadRequestException('Cart is empty');
+      }
+
+      // Narxlar serverda Variant.price asosida hisoblanadi. Narx, mavjudlik
+      // yoki zaxira o'zgargan bo'lsa, mijoz avval ularni tasdiqlashi kerak
+      const check = await checkCartItems(this.pricingService, cart.items, tx);
+      assertNoCartWarnings(check.warnings);
+      // Ogohlantirish bo'lmasa, barcha qatorlarning varianti bor
+      const priced = check.priced!;
+
+      if (priced.subtotal <= 0) {
+        throw new BadRequestException('Total price must be greater than zero');
+      }
+
+      // Checkout'da yuborilgan kod savatchadagi koddan ustun
+      const couponCode = shippingDetails.couponCode ?? cart.couponCode;
+      const discount = couponCode
+        ? await this.couponService.evaluate(couponCode, priced, userId, tx)
+        : null;
+      const discountTotal = discount?.amount ?? 0;
+      const totalPrice = roundMoney(priced.subtotal - discountTotal);
+      // Yetkazib berish narxi totalPrice ga qo'shilmaydi, alohida saqlanadi
+      const shipping = await this.shippingService.quote(
+        destination.region,
+        totalPrice,
+        tx,
+      );
+
+      // Omborda yetarli mahsulot borligini tekshirib, zaxirani kamaytiramiz
+      await this.stockService.reserve(tx, priced.lines);
+      if (discount) {
+        await this.couponService.redeem(tx, discount.coupon.id);
+      }
+
       const order = await tx.order.create({
         data: {
           userId,
           status: 'PENDING',
           paymentStatus: 'UNPAID',
+          paymentMethod,
           totalPrice,
-          customerName: shippingDetails.customerName,
-          customerPhone: shippingDetails.customerPhone,
-          region: shippingDetails.region,
-          address: shippingDetails.address,
+          discountTotal,
+          ...toOrderShipping(shipping),
+          ...destination,
+          customerNote: shippingDetails.note,
+          idempotencyKey: shippingDetails.idempotencyKey,
+          guestCartId: userId === null ? cart.id : null,
           items: {
-            create: cart.items.map((item) => ({
-              variantId: item.variantId,
+            create: cart.items.map((item, index) => ({
+              variantId: priced.lines[index].variantId,
               quantity: item.quantity,
-              price: item.variant?.price || 0,
+              price: priced.lines[index].unitPrice,
+              priceBreakdown: toPriceBreakdown(priced.lines[index]),
               frontDesign: item.frontDesign ?? undefined,
               backDesign: item.backDesign ?? undefined,
               frontPreviewUrl: item.frontPreviewUrl,
+              frontThumbnailUrl: item.frontThumbnailUrl,
               backPreviewUrl: item.backPreviewUrl,
+              backThumbnailUrl: item.backThumbnailUrl,
             })),
           },
+          discounts: discount
+            ? { create: [this.couponService.toOrderDiscount(discount)] }
+            : undefined,
+          statusHistory: {
+            create: {
+              toStatus: 'PENDING',
+              actorId: userId,
+              note: 'Order placed',
+            },
+          },
         },
       });
 
       await tx.cartItem.deleteMany({
         where: { cartId: cart.id },
       });
+      await tx.cart.update({
+        where: { id: cart.id },
+        data: { couponCode: null },
+      });
+      // Eslatmadan keyin berilgan buyurtma qaytarilgan savatcha sifatida hisoblanadi
+      await this.abandonedCartService.markRecovered(tx, cart.id, order.id);
 
-      return order;
+      return { order, replayed: false };
     });
+
+    if (replayed) {
+      return this.orderService.findOne(order.id);
+    }
+
+    // Eski savatcha elementlarida mockup bo'lmasa, buyurtma uchun yaratamiz
+    await this.mockupService.tryGenerateMissingForOrder(order.id);
+    await this.orderService.sendOrderConfirmation(order.id);
+
+    return this.orderService.findOne(order.id);
   }
 
   // Savatchani to'liq tozalash
-  async clearCart(userId: number) {
-    await this.prisma.cartItem.deleteMany({
-      where: { cart: { userId } },
-    });
+  async clearCart(owner: CartOwner) {
+    const cartId = await this.findCartId(owner);
+    if (cartId !== null) {
+      await this.prisma.cartItem.deleteMany({ where: { cartId } });
+      await this.touch(cartId);
+    }
     return { message: 'Cart cleared successfully' };
   }
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { IsInt, IsPositive, Min, IsOptional } from 'class-validator';
+import { DesignDocumentDto } from '../../design/dto/design-document.dto';
+import { IsDesignDocument } from '../../design/decorators/is-design-document.decorator';
 
 export class AddToCartDto {
   @ApiProperty({
@@ -20,32 +22,36 @@ export class AddToCartDto {
   quantity: number;
 
   @ApiProperty({
-    description: 'Front design data (JSON)',
+    description: 'Front design document',
     required: false,
-    example: { designId: '123', text: 'Custom text' },
+    type: DesignDocumentDto,
   })
   @IsOptional()
-  frontDesign?: any;
+  @IsDesignDocument()
+  frontDesign?: DesignDocumentDto;
 
   @ApiProperty({
-    description: 'Back design data (JSON)',
+    description: 'Back design document',
     required: false,
-    example: { designId: '124', text: 'Back text' },
+    type: DesignDocumentDto,
   })
   @IsOptional()
-  backDesign?: any;
+  @IsDesignDocument()
+  backDesign?: DesignDocumentDto;
 
   @ApiProperty({
-    description: 'Front preview URL',
+    description: 'Ignored: previews are generated on the server',
     required: false,
+    deprecated: true,
     example: 'https://example.com/preview-front.png',
   })
   @IsOptional()
   frontPreviewUrl?: string;
 
   @ApiProperty({
-    description: 'Back preview URL',
+    description: 'Ignored: previews are generated on the server',
     required: false,
+    deprecated: true,
     example: 'https://example.com/preview-back.png',
   })
   @IsOptional()
@@ -17,6 +17,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
     let status = HttpStatus.INTERNAL_SERVER_ERROR;
     let message = 'Internal server error';
     let error = 'Internal Server Error';
+    let details: unknown;
 
     // Handle Prisma errors
     if (exception instanceof PrismaClientKnownRequestError) {
@@ -47,6 +48,9 @@ export class HttpExceptionFilter implements ExceptionFilter {
       if (typeof errorResponse === 'object' && errorResponse !== null) {
         message = (errorResponse as any).message || message;
         error = (errorResponse as any).error || error;
+        if ('details' in errorResponse) {
+          details = errorResponse.details;
+        }
       } else {
         message = errorResponse as string;
       }
@@ -61,6 +65,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
       path: ctx.getRequest().url,
       error,
       message,
+      ...(details !== undefined && { details }),
     });
   }
 
@@ -0,0 +1,16 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { JwtAuthGuard } from './jwt-auth.guard';
+
+/**
+ * Lets requests without an Authorization header through with no req.user,
+ * for routes that also serve guests. A token that is sent must be valid.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends JwtAuthGuard {
+  canActivate(context: ExecutionContext) {
+    const request = context.switchToHttp().getRequest();
+    if (!request.headers.authorization) return true;
+
+    return super.canActivate(context);
+  }
+}
@@ -0,0 +1,8 @@
+import { Role } from '@prisma/client';
+
+// Boshqa foydalanuvchilarning buyurtma va to'lovlarini ko'ra oladigan rollar
+export const ADMIN_ROLES: Role[] = [Role.ADMIN, Role.SUPER_ADMIN];
+
+export function isAdmin(role: Role): boolean {
+  return ADMIN_ROLES.includes(role);
+}
@@ -37,6 +37,7 @@ export class SecurityService {
   validateRole(userRole: Role, requiredRole: Role): void {
     const roleHierarchy = {
       [Role.USER]: 1,
+      [Role.COURIER]: 1,
       [Role.ADMIN]: 2,
       [Role.SUPER_ADMIN]: 3,
     };
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { CouponService } from './coupon.service';
+import { CouponController } from './coupon.controller';
+
+@Module({
+  imports: [PrismaModule, ConfigModule, AuthModule],
+  controllers: [CouponController],
+  providers: [CouponService],
+  exports: [CouponService],
+})
+export class CouponModule {}
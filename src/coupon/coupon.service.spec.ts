@@ -0,0 +1,144 @@
+import { Category, DiscountType, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  calculateDiscount,
+  CouponService,
+  normalizeCouponCode,
+} from './coupon.service';
+
+const line = (productId: number, category: Category, lineTotal: number) => ({
+  variantId: productId * 10,
+  quantity: 1,
+  basePrice: lineTotal,
+  tierPrice: lineTotal,
+  surcharges: [],
+  surchargeTotal: 0,
+  unitPrice: lineTotal,
+  lineTotal,
+  tierMinQuantity: null,
+  productId,
+  category,
+});
+
+const rule = (
+  type: DiscountType,
+  value: number,
+  restrictions: { categories?: Category[]; productIds?: number[] } = {},
+) => ({
+  type,
+  value,
+  categories: restrictions.categories ?? [],
+  productIds: restrictions.productIds ?? [],
+});
+
+describe('calculateDiscount', () => {
+  const lines = [
+    line(1, Category.HOODIE, 100000),
+    line(2, Category.HOODIE, 50000),
+    line(3, Category.T_SHIRT, 30000),
+  ];
+
+  it('takes a percentage of the whole cart', () => {
+    expect(calculateDiscount(rule(DiscountType.PERCENTAGE, 10), lines)).toEqual(
+      { eligibleSubtotal: 180000, amount: 18000 },
+    );
+  });
+
+  it('takes a fixed amount, never more than the eligible subtotal', () => {
+    expect(
+      calculateDiscount(rule(DiscountType.FIXED, 20000), lines).amount,
+    ).toBe(20000);
+    expect(
+      calculateDiscount(rule(DiscountType.FIXED, 500000), lines).amount,
+    ).toBe(180000);
+  });
+
+  it('only discounts lines of the listed products', () => {
+    expect(
+      calculateDiscount(
+        rule(DiscountType.PERCENTAGE, 50, { productIds: [2] }),
+        lines,
+      ),
+    ).toEqual({ eligibleSubtotal: 50000, amount: 25000 });
+  });
+
+  it('only discounts lines of the listed categories', () => {
+    expect(
+      calculateDiscount(
+        rule(DiscountType.FIXED, 200000, { categories: [Category.HOODIE] }),
+        lines,
+      ),
+    ).toEqual({ eligibleSubtotal: 150000, amount: 150000 });
+  });
+
+  it('discounts a line matching either a category or a product', () => {
+    const restricted = rule(DiscountType.PERCENTAGE, 10, {
+      categories: [Category.HOODIE],
+      productIds: [3],
+    });
+
+    expect(calculateDiscount(restricted, lines).eligibleSubtotal).toBe(180000);
+  });
+
+  it('gives nothing when no line qualifies', () => {
+    expect(
+      calculateDiscount(
+        rule(DiscountType.FIXED, 10000, { productIds: [99] }),
+        lines,
+      ),
+    ).toEqual({ eligibleSubtotal: 0, amount: 0 });
+  });
+
+  it('rounds a percentage discount to tiyin', () => {
+    const { amount } = calculateDiscount(rule(DiscountType.PERCENTAGE, 15), [
+      line(1, Category.HOODIE, 333.33),
+    ]);
+
+    expect(amount).toBe(50);
+  });
+});
+
+describe('normalizeCouponCode', () => {
+  it('trims and upper-cases the code', () => {
+    expect(normalizeCouponCode('  autumn20 ')).toBe('AUTUMN20');
+  });
+});
+
+describe('CouponService repriceOrder', () => {
+  it('applies the restrictions recorded on the order, even after the coupon was deleted', async () => {
+    const update = jest.fn().mockResolvedValue(undefined);
+    const tx = {
+      orderDiscount: {
+        findMany: jest.fn().mockResolvedValue([
+          {
+            id: 9,
+            couponId: null,
+            ...rule(DiscountType.PERCENTAGE, 10, {
+              categories: [Category.HOODIE],
+            }),
+          },
+        ]),
+        update,
+      },
+      variant: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 10, product: { id: 1, category: Category.HOODIE } },
+          { id: 30, product: { id: 3, category: Category.T_SHIRT } },
+        ]),
+      },
+    } as unknown as Prisma.TransactionClient;
+    const service = new CouponService({} as PrismaService);
+
+    const total = await service.repriceOrder(tx, 5, [
+      line(1, Category.HOODIE, 100000),
+      line(3, Category.T_SHIRT, 30000),
+    ]);
+
+    // Futbolka chegirmaga kirmaydi: kupon faqat xudilar uchun berilgan edi
+    expect(total).toBe(10000);
+    expect(update).toHaveBeenCalledWith({
+      where: { id: 9 },
+      data: { eligibleSubtotal: 100000, amount: 10000 },
+    });
+  });
+});
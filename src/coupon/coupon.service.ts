@@ -0,0 +1,352 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Category,
+  Coupon,
+  DiscountType,
+  OrderStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  PricedItems,
+  PricedLine,
+  roundMoney,
+} from '../pricing/pricing.service';
+import { CreateCouponDto } from './dto/create-coupon.dto';
+import { UpdateCouponDto } from './dto/update-coupon.dto';
+
+type CouponRule = Pick<Coupon, 'type' | 'value' | 'categories' | 'productIds'>;
+
+interface ProductLine extends PricedLine {
+  productId: number;
+  category: Category;
+}
+
+export interface CouponDiscount {
+  coupon: Coupon;
+  eligibleSubtotal: number;
+  amount: number;
+}
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Calculates the discount a coupon gives on priced lines. Restricted coupons
+ * only discount items in their categories or products.
+ */
+export function calculateDiscount(rule: CouponRule, lines: ProductLine[]) {
+  const restricted = rule.categories.length > 0 || rule.productIds.length > 0;
+  const eligibleSubtotal = roundMoney(
+    lines
+      .filter(
+        (line) =>
+          !restricted ||
+          rule.categories.includes(line.category) ||
+          rule.productIds.includes(line.productId),
+      )
+      .reduce((sum, line) => sum + line.lineTotal, 0),
+  );
+
+  const amount =
+    rule.type === DiscountType.PERCENTAGE
+      ? roundMoney((eligibleSubtotal * rule.value) / 100)
+      : roundMoney(Math.min(rule.value, eligibleSubtotal));
+
+  return { eligibleSubtotal, amount };
+}
+
+@Injectable()
+export class CouponService {
+  constructor(private prisma: PrismaService) {}
+
+  async create(dto: CreateCouponDto) {
+    const code = normalizeCouponCode(dto.code);
+    this.assertValidRule(dto.type, dto.value, dto.startsAt, dto.expiresAt);
+
+    const existing = await this.prisma.coupon.findUnique({ where: { code } });
+    if (existing) {
+      throw new ConflictException(`Coupon code ${code} already exists`);
+    }
+
+    return this.prisma.coupon.create({
+      data: {
+        ...dto,
+        code,
+        categories: dto.categories ?? [],
+        productIds: dto.productIds ?? [],
+      },
+    });
+  }
+
+  findAll() {
+    return this.prisma.coupon.findMany({
+      include: { _count: { select: { discounts: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(id: number) {
+    const coupon = await this.prisma.coupon.findUnique({
+      where: { id },
+      include: { _count: { select: { discounts: true } } },
+    });
+
+    if (!coupon) {
+      throw new NotFoundException(`Coupon with ID ${id} not found`);
+    }
+
+    return coupon;
+  }
+
+  async update(id: number, dto: UpdateCouponDto) {
+    const coupon = await this.findOne(id);
+    const code = dto.code ? normalizeCouponCode(dto.code) : coupon.code;
+
+    this.assertValidRule(
+      dto.type ?? coupon.type,
+      dto.value ?? coupon.value,
+      dto.startsAt ?? coupon.startsAt,
+      dto.expiresAt ?? coupon.expiresAt,
+    );
+
+    if (code !== coupon.code) {
+      const existing = await this.prisma.coupon.findUnique({
+        where: { code },
+      });
+      if (existing) {
+        throw new ConflictException(`Coupon code ${code} already exists`);
+      }
+    }
+
+    return this.prisma.coupon.update({
+      where: { id },
+      data: { ...dto, code },
+    });
+  }
+
+  // Buyurtmalardagi chegirma qatorlari kod va summasi bilan saqlanib qoladi
+  async remove(id: number) {
+    await this.findOne(id);
+    await this.prisma.coupon.delete({ where: { id } });
+
+    return { message: `Coupon with ID ${id} has been deleted` };
+  }
+
+  /**
+   * Checks a code against the priced cart and returns the discount it gives.
+   * Throws a BadRequestException explaining why the coupon can't be used.
+   * @param code The code entered by the customer
+   * @param priced The server-side pricing of the cart
+   * @param userId The customer, for the per-user usage limit; null for guests
+   * @param client Optional transaction client so checks happen inside checkout
+   */
+  async evaluate(
+    code: string,
+    priced: PricedItems,
+    userId: number | null,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<CouponDiscount> {
+    const coupon = await client.coupon.findUnique({
+      where: { code: normalizeCouponCode(code) },
+    });
+
+    if (!coupon || !coupon.isActive) {
+      throw new BadRequestException(`Coupon code ${code} is not valid`);
+    }
+
+    const now = new Date();
+    if (coupon.startsAt && coupon.startsAt > now) {
+      throw new BadRequestException(`Coupon ${coupon.code} is not active yet`);
+    }
+    if (coupon.expiresAt && coupon.expiresAt <= now) {
+      throw new BadRequestException(`Coupon ${coupon.code} has expired`);
+    }
+
+    if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+      throw new BadRequestException(
+        `Coupon ${coupon.code} has reached its usage limit`,
+      );
+    }
+
+    if (coupon.usageLimitPerUser !== null) {
+      // Mehmonning oldingi buyurtmalarini sanab bo'lmaydi
+      if (userId === null) {
+        throw new BadRequestException(`Sign in to use coupon ${coupon.code}`);
+      }
+      const used = await client.orderDiscount.count({
+        where: {
+          couponId: coupon.id,
+          order: { userId, status: { not: OrderStatus.CANCELLED } },
+        },
+      });
+      if (used >= coupon.usageLimitPerUser) {
+        throw new BadRequestException(
+          `You have already used coupon ${coupon.code}`,
+        );
+      }
+    }
+
+    if (
+      coupon.minOrderValue !== null &&
+      priced.subtotal < coupon.minOrderValue
+    ) {
+      throw new BadRequestException(
+        `Coupon ${coupon.code} requires an order of at least ${coupon.minOrderValue}`,
+      );
+    }
+
+    const lines = await this.loadProductLines(priced.lines, client);
+    const { eligibleSubtotal, amount } = calculateDiscount(coupon, lines);
+
+    if (amount <= 0) {
+      throw new BadRequestException(
+        `Coupon ${coupon.code} does not apply to any item in the cart`,
+      );
+    }
+
+    return { coupon, eligibleSubtotal, amount };
+  }
+
+  /**
+   * Counts one use of the coupon. The limit is re-checked in the UPDATE so
+   * concurrent checkouts can't go over it.
+   * @param tx The checkout transaction
+   * @param couponId The coupon being used
+   */
+  async redeem(tx: Prisma.TransactionClient, couponId: number): Promise<void> {
+    const { count } = await tx.coupon.updateMany({
+      where: {
+        id: couponId,
+        OR: [
+          { usageLimit: null },
+          { usedCount: { lt: tx.coupon.fields.usageLimit } },
+        ],
+      },
+      data: { usedCount: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw new ConflictException('Coupon has reached its usage limit');
+    }
+  }
+
+  // Buyurtmaga yoziladigan chegirma qatori (kupon shartlari nusxasi bilan)
+  toOrderDiscount(
+    discount: CouponDiscount,
+  ): Prisma.OrderDiscountCreateWithoutOrderInput {
+    return {
+      coupon: { connect: { id: discount.coupon.id } },
+      code: discount.coupon.code,
+      type: discount.coupon.type,
+      value: discount.coupon.value,
+      categories: discount.coupon.categories,
+      productIds: discount.coupon.productIds,
+      eligibleSubtotal: discount.eligibleSubtotal,
+      amount: discount.amount,
+    };
+  }
+
+  /**
+   * Gives back the coupon uses of a cancelled order
+   * @param tx The transaction client
+   * @param orderId The cancelled order
+   */
+  async releaseOrder(
+    tx: Prisma.TransactionClient,
+    orderId: number,
+  ): Promise<void> {
+    const discounts = await tx.orderDiscount.findMany({
+      where: { orderId, couponId: { not: null } },
+      select: { couponId: true },
+    });
+
+    for (const { couponId } of discounts) {
+      await tx.coupon.updateMany({
+        where: { id: couponId!, usedCount: { gt: 0 } },
+        data: { usedCount: { decrement: 1 } },
+      });
+    }
+  }
+
+  /**
+   * Recalculates an order's discount lines after its items were replaced.
+   * The coupon was already redeemed, so only the rate and restrictions
+   * recorded on the order are applied again, not its limits or dates.
+   * @param tx The transaction client
+   * @param orderId The order ID
+   * @param lines The new priced lines
+   * @returns The new discount total
+   */
+  async repriceOrder(
+    tx: Prisma.TransactionClient,
+    orderId: number,
+    lines: PricedLine[],
+  ): Promise<number> {
+    const discounts = await tx.orderDiscount.findMany({ where: { orderId } });
+    if (discounts.length === 0) return 0;
+
+    const productLines = await this.loadProductLines(lines, tx);
+    let total = 0;
+
+    for (const discount of discounts) {
+      // Kuponning hozirgi holati emas, buyurtmaga yozilgan nusxasi ishlatiladi
+      const { eligibleSubtotal, amount } = calculateDiscount(
+        discount,
+        productLines,
+      );
+
+      await tx.orderDiscount.update({
+        where: { id: discount.id },
+        data: { eligibleSubtotal, amount },
+      });
+      total += amount;
+    }
+
+    return roundMoney(total);
+  }
+
+  private async loadProductLines(
+    lines: PricedLine[],
+    client: Prisma.TransactionClient,
+  ): Promise<ProductLine[]> {
+    const variants = await client.variant.findMany({
+      where: { id: { in: [...new Set(lines.map((line) => line.variantId))] } },
+      select: { id: true, product: { select: { id: true, category: true } } },
+    });
+    const productByVariant = new Map(
+      variants.map((variant) => [variant.id, variant.product]),
+    );
+
+    return lines.map((line) => {
+      const product = productByVariant.get(line.variantId);
+      if (!product) {
+        throw new BadRequestException(
+          `Variant with ID ${line.variantId} not found`,
+        );
+      }
+      return { ...line, productId: product.id, category: product.category };
+    });
+  }
+
+  private assertValidRule(
+    type: DiscountType,
+    value: number,
+    startsAt?: Date | string | null,
+    expiresAt?: Date | string | null,
+  ): void {
+    if (type === DiscountType.PERCENTAGE && value > 100) {
+      throw new BadRequestException('A percentage discount cannot exceed 100');
+    }
+
+    if (startsAt && expiresAt && new Date(startsAt) >= new Date(expiresAt)) {
+      throw new BadRequestException('expiresAt must be later than startsAt');
+    }
+  }
+}
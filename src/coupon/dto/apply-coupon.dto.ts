@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, MaxLength, MinLength } from 'class-validator';
+
+export class ApplyCouponDto {
+  @ApiProperty({ example: 'AUTUMN20' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(32)
+  code: string;
+}
@@ -0,0 +1,112 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Category, DiscountType } from '@prisma/client';
+
+export class CreateCouponDto {
+  @ApiProperty({
+    description: 'Promo code, stored in upper case',
+    example: 'AUTUMN20',
+  })
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/, {
+    message: 'code must be 3-32 characters of letters, digits, "-" or "_"',
+  })
+  code: string;
+
+  @ApiPropertyOptional({ example: '20% off all hoodies' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ enum: DiscountType, example: DiscountType.PERCENTAGE })
+  @IsEnum(DiscountType)
+  type: DiscountType;
+
+  @ApiProperty({
+    description: 'Percent (1-100) or fixed amount, depending on type',
+    example: 20,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  value: number;
+
+  @ApiPropertyOptional({
+    description: 'Minimum cart subtotal for the coupon to apply',
+    example: 200000,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  minOrderValue?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Only items in these categories are discounted. Empty means every item',
+    enum: Category,
+    isArray: true,
+    example: [Category.HOODIE],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(Category, { each: true })
+  categories?: Category[];
+
+  @ApiPropertyOptional({
+    description:
+      'Only these products are discounted (in addition to categories)',
+    type: [Number],
+    example: [3, 7],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @IsPositive({ each: true })
+  productIds?: number[];
+
+  @ApiPropertyOptional({
+    description: 'How many orders can use the coupon in total',
+    example: 100,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @ApiPropertyOptional({
+    description: 'How many orders one customer can use the coupon on',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimitPerUser?: number;
+
+  @ApiPropertyOptional({ example: '2026-10-01T00:00:00.000Z' })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiPropertyOptional({ example: '2026-11-01T00:00:00.000Z' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
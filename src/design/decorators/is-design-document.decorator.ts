@@ -0,0 +1,23 @@
+import { applyDecorators } from '@nestjs/common';
+import { Transform, plainToInstance } from 'class-transformer';
+import { IsObject, ValidateNested } from 'class-validator';
+import { DesignDocumentDto } from '../dto/design-document.dto';
+import { migrateDesignDocument } from '../design-document.migrator';
+
+/**
+ * Migrates a frontDesign/backDesign payload to the current schema version
+ * and validates it as a DesignDocumentDto. Combine with @IsOptional().
+ */
+export const IsDesignDocument = () =>
+  applyDecorators(
+    Transform(({ obj, key }) => {
+      const migrated = migrateDesignDocument(obj[key]);
+      return typeof migrated === 'object' &&
+        migrated !== null &&
+        !Array.isArray(migrated)
+        ? plainToInstance(DesignDocumentDto, migrated)
+        : migrated;
+    }),
+    IsObject(),
+    ValidateNested(),
+  );
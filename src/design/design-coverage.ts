@@ -0,0 +1,94 @@
+import { migrateDesignDocument } from './design-document.migrator';
+
+export interface DesignMeasurement {
+  elements: number;
+  // Print area'ning elementlar bilan qoplangan qismi, foizda (0-100)
+  coverage: number;
+}
+
+interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Counts the elements of a design and how much of the print area they
+ * cover. Overlapping elements are counted once; rotation is ignored and
+ * each element counts as its bounding box. Returns null for an empty side.
+ * @param value A stored or submitted design document of any version
+ */
+export function measureDesign(value: unknown): DesignMeasurement | null {
+  const document = migrateDesignDocument(value) as {
+    elements?: unknown;
+  } | null;
+  if (
+    !document ||
+    !Array.isArray(document.elements) ||
+    document.elements.length === 0
+  ) {
+    return null;
+  }
+
+  const boxes = document.elements
+    .map(toBox)
+    .filter((box): box is Box => box !== null);
+
+  return {
+    elements: document.elements.length,
+    coverage: Math.round(unionArea(boxes) * 100) / 100,
+  };
+}
+
+// Elementni print area chegarasida kesilgan to'rtburchakka aylantiradi
+function toBox(element: unknown): Box | null {
+  if (typeof element !== 'object' || element === null) return null;
+
+  const { x, y, width, height } = element as Record<string, unknown>;
+  if (
+    typeof x !== 'number' ||
+    typeof y !== 'number' ||
+    typeof width !== 'number' ||
+    typeof height !== 'number'
+  ) {
+    return null;
+  }
+
+  const box = {
+    left: Math.max(0, x),
+    top: Math.max(0, y),
+    right: Math.min(100, x + width),
+    bottom: Math.min(100, y + height),
+  };
+  return box.right > box.left && box.bottom > box.top ? box : null;
+}
+
+// Koordinatalarni siqib, har bir katak qoplanganini tekshiramiz (elementlar soni 50 tagacha)
+function unionArea(boxes: Box[]): number {
+  const xs = [...new Set(boxes.flatMap((b) => [b.left, b.right]))].sort(
+    (a, b) => a - b,
+  );
+  const ys = [...new Set(boxes.flatMap((b) => [b.top, b.bottom]))].sort(
+    (a, b) => a - b,
+  );
+
+  let area = 0;
+  for (let i = 0; i < xs.length - 1; i++) {
+    for (let j = 0; j < ys.length - 1; j++) {
+      const covered = boxes.some(
+        (b) =>
+          b.left <= xs[i] &&
+          b.right >= xs[i + 1] &&
+          b.top <= ys[j] &&
+          b.bottom >= ys[j + 1],
+      );
+      if (covered) {
+        area += (xs[i + 1] - xs[i]) * (ys[j + 1] - ys[j]);
+      }
+    }
+  }
+
+  // Print area 100 x 100 birlik: maydonni foizga o'tkazamiz
+  return area / 100;
+}
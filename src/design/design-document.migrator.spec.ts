@@ -0,0 +1,117 @@
+import { migrateDesignDocument } from './design-document.migrator';
+import {
+  CURRENT_DESIGN_VERSION,
+  DesignElementType,
+} from './dto/design-document.dto';
+
+describe('migrateDesignDocument', () => {
+  it('converts an unversioned v1 image element', () => {
+    const migrated = migrateDesignDocument({
+      elements: [
+        {
+          id: 'logo',
+          assetUrl: 'https://cdn.example.com/logo.png',
+          x_percent: 10,
+          y_percent: 20,
+          width_percent: 30,
+          height_percent: 40,
+          rotation: 15,
+          selected: true,
+        },
+      ],
+    });
+
+    expect(migrated).toEqual({
+      version: 2,
+      elements: [
+        {
+          type: DesignElementType.IMAGE,
+          id: 'logo',
+          assetUrl: 'https://cdn.example.com/logo.png',
+          x: 10,
+          y: 20,
+          width: 30,
+          height: 40,
+          rotation: 15,
+        },
+      ],
+    });
+  });
+
+  it('applies the v1 scale around the element centre', () => {
+    const migrated = migrateDesignDocument({
+      version: 1,
+      elements: [
+        {
+          assetUrl: 'https://cdn.example.com/logo.png',
+          x_percent: 40,
+          y_percent: 40,
+          width_percent: 20,
+          height_percent: 10,
+          scale: 2,
+        },
+      ],
+    }) as { elements: Record<string, number>[] };
+
+    expect(migrated.elements[0]).toMatchObject({
+      x: 30,
+      y: 35,
+      width: 40,
+      height: 20,
+    });
+  });
+
+  it('maps a numeric v1 font weight to bold or normal', () => {
+    const textElement = (fontWeight: unknown) => ({
+      text: 'Salom',
+      fontWeight,
+      x_percent: 0,
+      y_percent: 0,
+      width_percent: 50,
+      height_percent: 10,
+    });
+
+    const migrated = migrateDesignDocument({
+      elements: [textElement(700), textElement('400'), textElement('bold')],
+    }) as { elements: Record<string, unknown>[] };
+
+    expect(migrated.elements.map((element) => element.type)).toEqual([
+      DesignElementType.TEXT,
+      DesignElementType.TEXT,
+      DesignElementType.TEXT,
+    ]);
+    expect(migrated.elements.map((element) => element.fontWeight)).toEqual([
+      'bold',
+      'normal',
+      'bold',
+    ]);
+  });
+
+  it('leaves the element type unset when v1 gives no hint', () => {
+    const migrated = migrateDesignDocument({
+      elements: [
+        { x_percent: 0, y_percent: 0, width_percent: 10, height_percent: 10 },
+      ],
+    }) as { elements: Record<string, unknown>[] };
+
+    expect(migrated.elements[0].type).toBeUndefined();
+  });
+
+  it('returns current documents unchanged', () => {
+    const doc = { version: CURRENT_DESIGN_VERSION, elements: [] };
+    expect(migrateDesignDocument(doc)).toBe(doc);
+  });
+
+  it('returns values that are not design documents unchanged', () => {
+    expect(migrateDesignDocument(null)).toBeNull();
+    expect(migrateDesignDocument('design')).toBe('design');
+    expect(migrateDesignDocument([])).toEqual([]);
+    expect(migrateDesignDocument({ elements: 'none' })).toEqual({
+      elements: 'none',
+    });
+    expect(migrateDesignDocument({ version: '2', elements: [] })).toEqual({
+      version: '2',
+      elements: [],
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  CURRENT_DESIGN_VERSION,
+  DesignElementType,
+} from './dto/design-document.dto';
+
+type PlainObject = Record<string, any>;
+
+const V1_COMMON_FIELDS = ['id', 'rotation', 'opacity'];
+
+const V1_FIELDS: Record<string, string[]> = {
+  [DesignElementType.IMAGE]: [...V1_COMMON_FIELDS, 'assetUrl'],
+  [DesignElementType.TEXT]: [
+    ...V1_COMMON_FIELDS,
+    'text',
+    'fontFamily',
+    'fontSize',
+    'fontStyle',
+    'textAlign',
+    'lineHeight',
+    'letterSpacing',
+    'color',
+    'strokeColor',
+    'strokeWidth',
+  ],
+};
+
+// Har bir kalit: shu versiyadagi hujjatni keyingi versiyaga o'tkazuvchi funksiya
+const DESIGN_MIGRATIONS: Record<number, (doc: PlainObject) => PlainObject> = {
+  1: migrateV1ToV2,
+};
+
+/**
+ * Brings a stored or submitted design document up to the current version.
+ * Documents without a version but with an elements array are treated as v1.
+ * Anything else is returned unchanged and left to validation to reject.
+ */
+export function migrateDesignDocument(value: unknown): unknown {
+  if (!isPlainObject(value)) return value;
+
+  const initialVersion = getDesignVersion(value);
+  if (initialVersion === null) return value;
+
+  let doc: PlainObject = value;
+  let version: number = initialVersion;
+  while (version < CURRENT_DESIGN_VERSION) {
+    const migrate = DESIGN_MIGRATIONS[version];
+    if (!migrate) return doc;
+
+    doc = migrate(doc);
+    version = doc.version;
+  }
+
+  return doc;
+}
+
+function getDesignVersion(doc: PlainObject): number | null {
+  if (doc.version === undefined) {
+    return Array.isArray(doc.elements) ? 1 : null;
+  }
+  return Number.isInteger(doc.version) ? doc.version : null;
+}
+
+/**
+ * v1 was the untyped editor output: *_percent coordinates, a scale applied
+ * around the element centre, and the element kind implied by assetUrl/text.
+ */
+function migrateV1ToV2(doc: PlainObject): PlainObject {
+  return {
+    version: 2,
+    elements: doc.elements.map((element: unknown) => {
+      if (!isPlainObject(element)) return element;
+
+      const type = element.assetUrl
+        ? DesignElementType.IMAGE
+        : typeof element.text === 'string'
+          ? DesignElementType.TEXT
+          : undefined;
+
+      // Scale markaz bo'yicha edi, shuning uchun o'lchamga qo'shib, joylashuvni siljitamiz
+      const factor =
+        typeof element.scale === 'number' && element.scale > 0
+          ? element.scale
+          : 1;
+      const width = element.width_percent * factor;
+      const height = element.height_percent * factor;
+
+      const migrated: PlainObject = {
+        type,
+        x: element.x_percent - (width - element.width_percent) / 2,
+        y: element.y_percent - (height - element.height_percent) / 2,
+        width,
+        height,
+      };
+
+      // v1 muharriri qo'shgan boshqa maydonlar tashlab yuboriladi
+      for (const field of V1_FIELDS[type ?? 'unknown'] ?? []) {
+        if (element[field] !== undefined) migrated[field] = element[field];
+      }
+
+      if (type === DesignElementType.TEXT && element.fontWeight !== undefined) {
+        migrated.fontWeight =
+          element.fontWeight === 'bold' || Number(element.fontWeight) >= 600
+            ? 'bold'
+            : 'normal';
+      }
+
+      return migrated;
+    }),
+  };
+}
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
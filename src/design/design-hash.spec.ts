@@ -0,0 +1,73 @@
+import { hashDesigns } from './design-hash';
+import { DesignElementType } from './dto/design-document.dto';
+
+describe('hashDesigns', () => {
+  const v2Front = {
+    version: 2,
+    elements: [
+      {
+        type: DesignElementType.IMAGE,
+        id: 'logo',
+        assetUrl: 'https://cdn.example.com/logo.png',
+        x: 10,
+        y: 20,
+        width: 30,
+        height: 40,
+      },
+    ],
+  };
+
+  it('gives the same hash regardless of key order', () => {
+    const reordered = {
+      elements: [
+        {
+          height: 40,
+          width: 30,
+          y: 20,
+          x: 10,
+          assetUrl: 'https://cdn.example.com/logo.png',
+          id: 'logo',
+          type: DesignElementType.IMAGE,
+        },
+      ],
+      version: 2,
+    };
+
+    expect(hashDesigns(reordered, null)).toBe(hashDesigns(v2Front, null));
+  });
+
+  it('gives the same hash for a v1 document and its v2 migration', () => {
+    const v1Front = {
+      elements: [
+        {
+          id: 'logo',
+          assetUrl: 'https://cdn.example.com/logo.png',
+          x_percent: 10,
+          y_percent: 20,
+          width_percent: 30,
+          height_percent: 40,
+        },
+      ],
+    };
+
+    expect(hashDesigns(v1Front, null)).toBe(hashDesigns(v2Front, null));
+  });
+
+  it('treats a missing side as empty', () => {
+    expect(hashDesigns(v2Front, undefined)).toBe(hashDesigns(v2Front, null));
+    expect(hashDesigns(undefined, undefined)).toBe(hashDesigns(null, null));
+  });
+
+  it('tells designs apart', () => {
+    const moved = {
+      ...v2Front,
+      elements: [{ ...v2Front.elements[0], x: 11 }],
+    };
+
+    expect(hashDesigns(moved, null)).not.toBe(hashDesigns(v2Front, null));
+  });
+
+  it('tells the front and back sides apart', () => {
+    expect(hashDesigns(v2Front, null)).not.toBe(hashDesigns(null, v2Front));
+  });
+});
@@ -0,0 +1,19 @@
+import { createHash } from 'crypto';
+import { canonicalJson } from '../common/utils/canonical-json';
+import { migrateDesignDocument } from './design-document.migrator';
+
+/**
+ * Identifies a pair of front/back designs: the same designs give the same
+ * hash regardless of key order or document version, so cart lines with
+ * identical designs can be merged. A missing side counts as empty.
+ */
+export function hashDesigns(frontDesign: unknown, backDesign: unknown): string {
+  return createHash('sha256')
+    .update(
+      canonicalJson({
+        front: migrateDesignDocument(frontDesign ?? null),
+        back: migrateDesignDocument(backDesign ?? null),
+      }),
+    )
+    .digest('hex');
+}
@@ -0,0 +1,283 @@
+import {
+  IsArray,
+  IsEnum,
+  IsHexColor,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  ArrayMaxSize,
+  Equals,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ApiExtraModels,
+  ApiProperty,
+  ApiPropertyOptional,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import { BUNDLED_FONT_FAMILIES } from '../../print-file/print-fonts';
+
+export const CURRENT_DESIGN_VERSION = 2;
+
+export enum DesignElementType {
+  IMAGE = 'image',
+  TEXT = 'text',
+  SHAPE = 'shape',
+}
+
+export enum DesignShape {
+  RECTANGLE = 'rectangle',
+  ELLIPSE = 'ellipse',
+  LINE = 'line',
+}
+
+// Barcha elementlar uchun umumiy joylashuv: print area o'lchamiga nisbatan foizlarda
+export class DesignElementBaseDto {
+  @ApiProperty({ enum: DesignElementType, example: DesignElementType.IMAGE })
+  @IsEnum(DesignElementType)
+  type: DesignElementType;
+
+  @ApiPropertyOptional({
+    description: 'Client-side element id',
+    example: 'el-1',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  id?: string;
+
+  @ApiProperty({
+    description: 'Left edge, percent of the print area width',
+    example: 10,
+  })
+  @IsNumber()
+  @Min(-100)
+  @Max(100)
+  x: number;
+
+  @ApiProperty({
+    description: 'Top edge, percent of the print area height',
+    example: 10,
+  })
+  @IsNumber()
+  @Min(-100)
+  @Max(100)
+  y: number;
+
+  @ApiProperty({
+    description: 'Width, percent of the print area width',
+    example: 50,
+  })
+  @IsNumber()
+  @IsPositive()
+  @Max(200)
+  width: number;
+
+  @ApiProperty({
+    description: 'Height, percent of the print area height',
+    example: 30,
+  })
+  @IsNumber()
+  @IsPositive()
+  @Max(200)
+  height: number;
+
+  @ApiPropertyOptional({
+    description: 'Rotation around the element centre, in degrees',
+    example: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-360)
+  @Max(360)
+  rotation?: number;
+
+  @ApiPropertyOptional({ description: 'Opacity from 0 to 1', example: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  opacity?: number;
+}
+
+export class ImageElementDto extends DesignElementBaseDto {
+  declare type: DesignElementType.IMAGE;
+
+  @ApiProperty({
+    description: 'Uploaded asset URL',
+    example: '/uploads/assets/logo.png',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  assetUrl: string;
+}
+
+export class TextElementDto extends DesignElementBaseDto {
+  declare type: DesignElementType.TEXT;
+
+  @ApiProperty({ example: 'Oʻzbekiston' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  text: string;
+
+  @ApiPropertyOptional({ enum: BUNDLED_FONT_FAMILIES, example: 'DejaVu Sans' })
+  @IsOptional()
+  @IsIn(BUNDLED_FONT_FAMILIES)
+  fontFamily?: string;
+
+  @ApiPropertyOptional({ description: 'Font size in millimetres', example: 12 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(300)
+  fontSize?: number;
+
+  @ApiPropertyOptional({ enum: ['normal', 'bold'], example: 'bold' })
+  @IsOptional()
+  @IsIn(['normal', 'bold'])
+  fontWeight?: 'normal' | 'bold';
+
+  @ApiPropertyOptional({ enum: ['normal', 'italic'], example: 'normal' })
+  @IsOptional()
+  @IsIn(['normal', 'italic'])
+  fontStyle?: 'normal' | 'italic';
+
+  @ApiPropertyOptional({ enum: ['left', 'center', 'right'], example: 'center' })
+  @IsOptional()
+  @IsIn(['left', 'center', 'right'])
+  textAlign?: 'left' | 'center' | 'right';
+
+  @ApiPropertyOptional({
+    description: 'Line height as a multiple of the font size',
+    example: 1.2,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.5)
+  @Max(5)
+  lineHeight?: number;
+
+  @ApiPropertyOptional({
+    description: 'Extra space between letters, in millimetres',
+    example: 0.5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-10)
+  @Max(50)
+  letterSpacing?: number;
+
+  @ApiPropertyOptional({ example: '#000000' })
+  @IsOptional()
+  @IsHexColor()
+  color?: string;
+
+  @ApiPropertyOptional({ example: '#FFFFFF' })
+  @IsOptional()
+  @IsHexColor()
+  strokeColor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Outline width in millimetres',
+    example: 0.3,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(20)
+  strokeWidth?: number;
+}
+
+export class ShapeElementDto extends DesignElementBaseDto {
+  declare type: DesignElementType.SHAPE;
+
+  @ApiProperty({ enum: DesignShape, example: DesignShape.RECTANGLE })
+  @IsEnum(DesignShape)
+  shape: DesignShape;
+
+  @ApiPropertyOptional({ example: '#FF0000' })
+  @IsOptional()
+  @IsHexColor()
+  fill?: string;
+
+  @ApiPropertyOptional({ example: '#000000' })
+  @IsOptional()
+  @IsHexColor()
+  strokeColor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Outline width in millimetres',
+    example: 0.5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(20)
+  strokeWidth?: number;
+
+  @ApiPropertyOptional({
+    description: 'Corner radius in millimetres (rectangles only)',
+    example: 2,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(500)
+  cornerRadius?: number;
+}
+
+export type DesignElementDto =
+  | ImageElementDto
+  | TextElementDto
+  | ShapeElementDto;
+
+@ApiExtraModels(ImageElementDto, TextElementDto, ShapeElementDto)
+export class DesignDocumentDto {
+  @ApiProperty({
+    description: 'Design schema version',
+    example: CURRENT_DESIGN_VERSION,
+  })
+  @Equals(CURRENT_DESIGN_VERSION)
+  version: number;
+
+  @ApiProperty({
+    description: 'Elements drawn in order, the first one at the bottom',
+    type: 'array',
+    items: {
+      oneOf: [
+        { $ref: getSchemaPath(ImageElementDto) },
+        { $ref: getSchemaPath(TextElementDto) },
+        { $ref: getSchemaPath(ShapeElementDto) },
+      ],
+    },
+  })
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => DesignElementBaseDto, {
+    discriminator: {
+      property: 'type',
+      subTypes: [
+        { value: ImageElementDto, name: DesignElementType.IMAGE },
+        { value: TextElementDto, name: DesignElementType.TEXT },
+        { value: ShapeElementDto, name: DesignElementType.SHAPE },
+      ],
+    },
+    keepDiscriminatorProperty: true,
+  })
+  elements: DesignElementDto[];
+
+  // Prisma Json ustuniga oddiy obyekt sifatida yoziladi
+  toJSON() {
+    return { version: this.version, elements: this.elements };
+  }
+}
@@ -0,0 +1,44 @@
+import { BadRequestException } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ValidationError, validateSync } from 'class-validator';
+import { DesignDocumentDto } from './dto/design-document.dto';
+import { migrateDesignDocument } from './design-document.migrator';
+
+/**
+ * Migrates a stored design (any supported version) and validates it against
+ * the current schema. Used where designs are read back from the database.
+ */
+export function parseDesignDocument(value: unknown): DesignDocumentDto {
+  const migrated = migrateDesignDocument(value);
+  if (typeof migrated !== 'object' || migrated === null) {
+    throw new BadRequestException('Design document must be an object');
+  }
+
+  const document = plainToInstance(DesignDocumentDto, migrated);
+  const errors = validateSync(document, {
+    whitelist: true,
+    forbidNonWhitelisted: true,
+  });
+
+  if (errors.length > 0) {
+    throw new BadRequestException({
+      message: 'Invalid design document',
+      error: 'Invalid Design',
+      details: { errors: flattenErrors(errors) },
+    });
+  }
+
+  return document;
+}
+
+function flattenErrors(errors: ValidationError[], parent = ''): string[] {
+  return errors.flatMap((error) => {
+    const property = parent ? `${parent}.${error.property}` : error.property;
+    return [
+      ...Object.values(error.constraints ?? {}).map(
+        (message) => `${property}: ${message}`,
+      ),
+      ...flattenErrors(error.children ?? [], property),
+    ];
+  });
+}
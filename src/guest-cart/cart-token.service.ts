@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+
+export const CART_TOKEN_HEADER = 'X-Cart-Token';
+
+// Mehmon savatchasi tokeni 30 kun amal qiladi
+const CART_TOKEN_TTL = '30d';
+
+// Access token bilan adashtirilmasligi uchun alohida turi bor
+const CART_TOKEN_TYPE = 'guest-cart';
+
+/**
+ * Signs and reads guest cart tokens. The token only carries the cart id;
+ * it never identifies a user, so it can't be used as an access token.
+ */
+@Injectable()
+export class CartTokenService {
+  constructor(private readonly jwtService: JwtService) {}
+
+  sign(cartId: number): Promise<string> {
+    return this.jwtService.signAsync(
+      { cartId, typ: CART_TOKEN_TYPE },
+      { expiresIn: CART_TOKEN_TTL },
+    );
+  }
+
+  // Yaroqsiz yoki muddati o'tgan token bo'sh savatcha kabi ko'riladi
+  async verify(token: string | undefined): Promise<number | null> {
+    if (!token) return null;
+
+    try {
+      const payload = await this.jwtService.verifyAsync<{
+        cartId?: unknown;
+        typ?: unknown;
+      }>(token);
+      return payload.typ === CART_TOKEN_TYPE && Number.isInteger(payload.cartId)
+        ? (payload.cartId as number)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+}
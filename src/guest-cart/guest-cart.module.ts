@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CartTokenService } from './cart-token.service';
+import { GuestCartService } from './guest-cart.service';
+
+// AuthModule'ga bog'liq emas: login va register ham shu modulni ishlatadi
+@Module({
+  imports: [
+    PrismaModule,
+    ConfigModule,
+    JwtModule.registerAsync({
+      useFactory: (configService: ConfigService) => {
+        const jwtSecret = configService.get<string>('JWT_SECRET');
+        if (!jwtSecret) {
+          throw new Error('JWT_SECRET environment variable is not set');
+        }
+        return { secret: jwtSecret };
+      },
+      inject: [ConfigService],
+    }),
+  ],
+  providers: [CartTokenService, GuestCartService],
+  exports: [CartTokenService, GuestCartService],
+})
+export class GuestCartModule {}
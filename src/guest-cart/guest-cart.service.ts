@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { CartTokenService } from './cart-token.service';
+
+@Injectable()
+export class GuestCartService {
+  constructor(
+    private prisma: PrismaService,
+    private cartTokenService: CartTokenService,
+  ) {}
+
+  // Mehmon tokeni bo'lsa, savatcha foydalanuvchinikiga qo'shiladi
+  async mergeFromToken(userId: number, cartToken: string | undefined) {
+    const guestCartId = await this.cartTokenService.verify(cartToken);
+    if (guestCartId !== null) {
+      await this.mergeGuestCart(userId, guestCartId);
+    }
+  }
+
+  /**
+   * Moves a guest cart's lines into the user's cart after login or
+   * registration. Lines with the same variant and designs are merged, and
+   * the guest coupon is kept when the user's cart has none. The guest cart
+   * is deleted afterwards; an unknown or already merged cart is ignored.
+   */
+  async mergeGuestCart(userId: number, guestCartId: number) {
+    await this.prisma.$transaction(async (tx) => {
+      const guestCart = await tx.cart.findFirst({
+        where: { id: guestCartId, userId: null },
+        include: { items: true },
+      });
+      if (!guestCart) return;
+
+      const cart =
+        (await tx.cart.findUnique({ where: { userId } })) ??
+        (await tx.cart.create({ data: { userId } }));
+
+      for (const item of guestCart.items) {
+        const existing =
+          item.designHash && item.variantId !== null
+            ? await tx.cartItem.findUnique({
+                where: {
+                  cartId_variantId_designHash: {
+                    cartId: cart.id,
+                    variantId: item.variantId,
+                    designHash: item.designHash,
+                  },
+                },
+              })
+            : null;
+
+        if (existing) {
+          await tx.cartItem.update({
+            where: { id: existing.id },
+            data: {
+              quantity: existing.quantity + item.quantity,
+              acceptedUnitPrice: null,
+            },
+          });
+          await tx.cartItem.delete({ where: { id: item.id } });
+        } else {
+          await tx.cartItem.update({
+            where: { id: item.id },
+            // Ulgurji pog'ona o'zgarishi mumkin: narx keyingi ko'rishda qayta qayd etiladi
+            data: { cartId: cart.id, acceptedUnitPrice: null },
+          });
+        }
+      }
+
+      // Mehmon kuponi foydalanuvchida kupon bo'lmasa saqlanadi
+      await tx.cart.update({
+        where: { id: cart.id },
+        data: {
+          couponCode: cart.couponCode ?? guestCart.couponCode,
+          updatedAt: new Date(),
+        },
+      });
+
+      await tx.cart.delete({ where: { id: guestCart.id } });
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { Observable, catchError, concatMap, of } from 'rxjs';
+import { IdempotencyScope, IdempotencyService } from './idempotency.service';
+import {
+  CART_TOKEN_HEADER,
+  CartTokenService,
+} from '../guest-cart/cart-token.service';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Makes a route safe to retry: with an Idempotency-Key header, the first
+ * response is stored and returned again for repeated requests with the same
+ * body. Requests without the header run as usual. Must run after JwtAuthGuard
+ * (or OptionalJwtAuthGuard); guests are scoped by their X-Cart-Token cart.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(
+    private readonly idempotencyService: IdempotencyService,
+    private readonly cartTokenService: CartTokenService,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler<unknown>,
+  ): Promise<Observable<unknown>> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request & { user?: { id: number } }>();
+    const key = request.header(IDEMPOTENCY_KEY_HEADER);
+
+    const scope = key ? await this.resolveScope(request) : null;
+    if (!key || !scope) {
+      return next.handle();
+    }
+
+    const start = await this.idempotencyService.begin(scope, key, {
+      method: request.method,
+      path: request.originalUrl.split('?')[0],
+      body: request.body,
+    });
+
+    if (start.replay) {
+      http.getResponse<Response>().setHeader('Idempotent-Replayed', 'true');
+      return of(start.response);
+    }
+
+    return next.handle().pipe(
+      concatMap(async (response) => {
+        await this.idempotencyService.complete(start.recordId, response);
+        return response;
+      }),
+      catchError(async (error) => {
+        await this.idempotencyService.release(start.recordId);
+        throw error;
+      }),
+    );
+  }
+
+  // Mehmon so'rovi savatcha tokeni bo'yicha ajratiladi; tokensiz kalit e'tiborsiz qoladi
+  private async resolveScope(
+    request: Request & { user?: { id: number } },
+  ): Promise<IdempotencyScope | null> {
+    if (request.user) {
+      return { userId: request.user.id };
+    }
+
+    const cartId = await this.cartTokenService.verify(
+      request.header(CART_TOKEN_HEADER),
+    );
+    return cartId === null ? null : { cartId };
+  }
+}
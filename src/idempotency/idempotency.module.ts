@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { GuestCartModule } from '../guest-cart/guest-cart.module';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+@Module({
+  imports: [PrismaModule, GuestCartModule],
+  providers: [IdempotencyService, IdempotencyInterceptor],
+  // Interceptor o'zini ishlatgan modulda yaratiladi, CartTokenService ham u yerda kerak
+  exports: [IdempotencyService, IdempotencyInterceptor, GuestCartModule],
+})
+export class IdempotencyModule {}
@@ -0,0 +1,165 @@
+import {
+  BadRequestException,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  IDEMPOTENCY_TTL_MS,
+  IdempotencyService,
+  hashRequest,
+} from './idempotency.service';
+
+const KEY = 'checkout-7f3c9a1e';
+
+const request = {
+  method: 'POST',
+  path: '/cart/checkout',
+  body: { address: 'Chilonzor 5', paymentMethod: 'COD' },
+};
+
+const prismaError = (code: string) =>
+  new Prisma.PrismaClientKnownRequestError('Request failed', {
+    code,
+    clientVersion: 'test',
+  });
+
+describe('hashRequest', () => {
+  it('ignores the key order of the body', () => {
+    expect(
+      hashRequest({
+        ...request,
+        body: { paymentMethod: 'COD', address: 'Chilonzor 5' },
+      }),
+    ).toBe(hashRequest(request));
+  });
+
+  it('depends on the method, path and body', () => {
+    const hash = hashRequest(request);
+
+    expect(hashRequest({ ...request, method: 'PUT' })).not.toBe(hash);
+    expect(hashRequest({ ...request, path: '/orders/checkout' })).not.toBe(
+      hash,
+    );
+    expect(
+      hashRequest({
+        ...request,
+        body: { ...request.body, address: 'Yunusobod' },
+      }),
+    ).not.toBe(hash);
+  });
+});
+
+describe('IdempotencyService.begin', () => {
+  let findUnique: jest.Mock;
+  let create: jest.Mock;
+  let deleteMany: jest.Mock;
+  let service: IdempotencyService;
+
+  beforeEach(() => {
+    findUnique = jest.fn().mockResolvedValue(null);
+    create = jest.fn().mockResolvedValue({ id: 11 });
+    deleteMany = jest.fn().mockResolvedValue({ count: 1 });
+    service = new IdempotencyService({
+      idempotencyRecord: { findUnique, create, deleteMany },
+    } as unknown as PrismaService);
+  });
+
+  const stored = (overrides: Record<string, unknown> = {}) => ({
+    id: 5,
+    requestHash: hashRequest(request),
+    response: { id: 42 },
+    completedAt: new Date(),
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  it.each(['short', 'has spaces in it', 'x'.repeat(101), 'bad/characters'])(
+    'rejects the key %p',
+    async (key) => {
+      await expect(
+        service.begin({ userId: 7 }, key, request),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(create).not.toHaveBeenCalled();
+    },
+  );
+
+  it('claims a new key for the caller', async () => {
+    await expect(service.begin({ userId: 7 }, KEY, request)).resolves.toEqual({
+      replay: false,
+      recordId: 11,
+    });
+    expect(create).toHaveBeenCalledWith({
+      data: { userId: 7, key: KEY, requestHash: hashRequest(request) },
+    });
+  });
+
+  it('scopes a guest key to the cart', async () => {
+    await service.begin({ cartId: 3 }, KEY, request);
+
+    expect(findUnique).toHaveBeenCalledWith({
+      where: { cartId_key: { cartId: 3, key: KEY } },
+    });
+    expect(create).toHaveBeenCalledWith({
+      data: { cartId: 3, key: KEY, requestHash: hashRequest(request) },
+    });
+  });
+
+  it('replays the stored response within the TTL', async () => {
+    findUnique.mockResolvedValue(stored());
+
+    await expect(service.begin({ userId: 7 }, KEY, request)).resolves.toEqual({
+      replay: true,
+      response: { id: 42 },
+    });
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('rejects the same key with a different body', async () => {
+    findUnique.mockResolvedValue(stored());
+
+    await expect(
+      service.begin({ userId: 7 }, KEY, {
+        ...request,
+        body: { ...request.body, paymentMethod: 'CLICK' },
+      }),
+    ).rejects.toBeInstanceOf(UnprocessableEntityException);
+  });
+
+  it('rejects a retry while the first request is still running', async () => {
+    findUnique.mockResolvedValue(stored({ completedAt: null }));
+
+    await expect(
+      service.begin({ userId: 7 }, KEY, request),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('frees an expired key and claims it again', async () => {
+    findUnique.mockResolvedValue(
+      stored({ createdAt: new Date(Date.now() - IDEMPOTENCY_TTL_MS - 1000) }),
+    );
+
+    await expect(service.begin({ userId: 7 }, KEY, request)).resolves.toEqual({
+      replay: false,
+      recordId: 11,
+    });
+    expect(deleteMany).toHaveBeenCalledWith({ where: { id: 5 } });
+  });
+
+  it('reports a key claimed by a parallel request as in progress', async () => {
+    create.mockRejectedValue(prismaError('P2002'));
+
+    await expect(
+      service.begin({ userId: 7 }, KEY, request),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('rejects a guest key for a cart that no longer exists', async () => {
+    create.mockRejectedValue(prismaError('P2003'));
+
+    await expect(
+      service.begin({ cartId: 3 }, KEY, request),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { canonicalJson } from '../common/utils/canonical-json';
+
+// Kalit 24 soat saqlanadi, keyin xuddi shu kalit yangi so'rov uchun ishlatilishi mumkin
+export const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+
+export interface IdempotentRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+// Kalit egasi: tizimga kirgan foydalanuvchi yoki mehmon savatchasi
+export type IdempotencyScope = { userId: number } | { cartId: number };
+
+export type IdempotencyStart =
+  | { replay: true; response: Prisma.JsonValue }
+  | { replay: false; recordId: number };
+
+export function hashRequest(request: IdempotentRequest): string {
+  return createHash('sha256')
+    .update(`${request.method.toUpperCase()} ${request.path}\n`)
+    .update(canonicalJson(request.body))
+    .digest('hex');
+}
+
+@Injectable()
+export class IdempotencyService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Claims an Idempotency-Key for a request, or returns the stored response
+   * when the same request was already completed with this key.
+   * @param scope Keys are scoped to the caller: the user, or a guest's cart
+   * @param key The Idempotency-Key header value
+   * @param request Method, path and body the key is bound to
+   */
+  async begin(
+    scope: IdempotencyScope,
+    key: string,
+    request: IdempotentRequest,
+  ): Promise<IdempotencyStart> {
+    if (!KEY_PATTERN.test(key)) {
+      throw new BadRequestException(
+        'Idempotency-Key must be 8-100 letters, digits, "-" or "_"',
+      );
+    }
+
+    const requestHash = hashRequest(request);
+    const existing = await this.prisma.idempotencyRecord.findUnique({
+      where:
+        'userId' in scope
+          ? { userId_key: { userId: scope.userId, key } }
+          : { cartId_key: { cartId: scope.cartId, key } },
+    });
+
+    if (existing) {
+      if (existing.createdAt.getTime() > Date.now() - IDEMPOTENCY_TTL_MS) {
+        if (existing.requestHash !== requestHash) {
+          throw new UnprocessableEntityException(
+            'Idempotency-Key was already used with a different request',
+          );
+        }
+        if (!existing.completedAt) {
+          throw new ConflictException(
+            'A request with this Idempotency-Key is still being processed',
+          );
+        }
+        return { replay: true, response: existing.response };
+      }
+
+      // Muddati o'tgan kalit bo'shatiladi
+      await this.prisma.idempotencyRecord.deleteMany({
+        where: { id: existing.id },
+      });
+    }
+
+    try {
+      const record = await this.prisma.idempotencyRecord.create({
+        data: { ...scope, key, requestHash },
+      });
+      return { replay: false, recordId: record.id };
+    } catch (error) {
+      // Parallel so'rov kalitni biz bilan bir vaqtda egalladi
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'A request with this Idempotency-Key is still being processed',
+        );
+      }
+      // Mehmon savatchasi o'chirilgan (masalan, foydalanuvchi savatchasiga qo'shilgan)
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2003'
+      ) {
+        throw new BadRequestException('Cart not found');
+      }
+      throw error;
+    }
+  }
+
+  async complete(recordId: number, response: unknown) {
+    // Javob JSON ko'rinishida saqlanadi: Date qiymatlari ISO matnga aylanadi
+    const stored =
+      response === undefined || response === null
+        ? Prisma.JsonNull
+        : (JSON.parse(JSON.stringify(response)) as Prisma.InputJsonValue);
+
+    await this.prisma.idempotencyRecord.update({
+      where: { id: recordId },
+      data: { response: stored, completedAt: new Date() },
+    });
+  }
+
+  // Xato bilan tugagan so'rov saqlanmaydi: mijoz shu kalit bilan qayta urinishi mumkin
+  async release(recordId: number) {
+    await this.prisma.idempotencyRecord.deleteMany({
+      where: { id: recordId },
+    });
+  }
+}
@@ -7,6 +7,7 @@ import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 import helmet from 'helmet';
 import { ValidationPipe, BadRequestException } from '@nestjs/common';
 import { UserService } from './user/user.service';
+import { CartService } from './cart/cart.service';
 import * as express from 'express';
 
 async function start() {
@@ -40,7 +41,9 @@ async function start() {
           },
       credentials: true,
       methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
-      allowedHeaders: 'Content-Type, Accept, Authorization',
+      allowedHeaders:
+        'Content-Type, Accept, Authorization, Idempotency-Key, X-Cart-Token',
+      exposedHeaders: 'X-Cart-Token, Idempotent-Replayed',
     });
 
     // Xavfsizlik uchun Helmet
@@ -101,6 +104,9 @@ async function start() {
     const userService = app.get(UserService);
     await userService.createSuperAdmin();
 
+    // Dizayn xeshi qo'shilishidan oldingi savatcha qatorlarini to'ldirish
+    await app.get(CartService).backfillDesignHashes();
+
     // Serverni ishga tushirish (Render uchun 0.0.0.0 muhim)
     await app.listen(PORT, '0.0.0.0', () => {
       console.log(`✅ Server is running on port: ${PORT}`);
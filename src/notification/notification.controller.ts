@@ -19,7 +19,7 @@ import { UpdateNotificationDto } from './dto/update-notification.dto';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
-import { Role } from '@prisma/client';
+import { isAdmin } from '../common/security/admin-roles';
 import { ApiBearerAuth } from '@nestjs/swagger';
 
 @Controller('notifications')
@@ -32,7 +32,7 @@ export class NotificationController {
   @HttpCode(HttpStatus.CREATED)
   create(@Body() createNotificationDto: CreateNotificationDto, @Request() req) {
     // Only allow users to create notifications for themselves or admins to create for others
-    if (req.user.role === Role.USER) {
+    if (!isAdmin(req.user.role)) {
       createNotificationDto.userId = req.user.id;
     }
     return this.notificationService.create(createNotificationDto);
@@ -7,6 +7,8 @@ import {
   IsUrl,
   MaxLength,
 } from 'class-validator';
+import { DesignDocumentDto } from '../../design/dto/design-document.dto';
+import { IsDesignDocument } from '../../design/decorators/is-design-document.decorator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class CreateOrderItemRequestDto {
@@ -47,18 +49,13 @@ export class CreateOrderItemRequestDto {
   price: number;
 
   @ApiPropertyOptional({
-    description: 'Front design data for customization',
-    example: {
-      x: 100,
-      y: 200,
-      scale: 1.2,
-      rotation: 45,
-      imageUrl: 'https://example.com/design.png',
-    },
+    description: 'Front design document',
+    type: DesignDocumentDto,
     required: false,
   })
   @IsOptional()
-  frontDesign?: any;
+  @IsDesignDocument()
+  frontDesign?: DesignDocumentDto;
 
   @ApiPropertyOptional({
     description: 'URL of the front design preview',
@@ -72,18 +69,13 @@ export class CreateOrderItemRequestDto {
   frontPreviewUrl?: string;
 
   @ApiPropertyOptional({
-    description: 'Back design data for customization',
-    example: {
-      x: 150,
-      y: 250,
-      scale: 1.0,
-      rotation: 0,
-      imageUrl: 'https://example.com/back-design.png',
-    },
+    description: 'Back design document',
+    type: DesignDocumentDto,
     required: false,
   })
   @IsOptional()
-  backDesign?: any;
+  @IsDesignDocument()
+  backDesign?: DesignDocumentDto;
 
   @ApiPropertyOptional({
     description: 'URL of the back design preview',
@@ -8,6 +8,8 @@ import {
   MaxLength,
 } from 'class-validator';
 import { ApiPropertyOptional } from '@nestjs/swagger';
+import { DesignDocumentDto } from '../../design/dto/design-document.dto';
+import { IsDesignDocument } from '../../design/decorators/is-design-document.decorator';
 
 export class UpdateOrderItemDto {
   @ApiPropertyOptional({
@@ -55,18 +57,13 @@ export class UpdateOrderItemDto {
   price?: number;
 
   @ApiPropertyOptional({
-    description: 'Updated front design data for customization',
-    example: {
-      x: 100,
-      y: 200,
-      scale: 1.2,
-      rotation: 45,
-      imageUrl: 'https://example.com/design.png',
-    },
+    description: 'Updated front design document',
+    type: DesignDocumentDto,
     required: false,
   })
   @IsOptional()
-  frontDesign?: any;
+  @IsDesignDocument()
+  frontDesign?: DesignDocumentDto;
 
   @ApiPropertyOptional({
     description: 'Updated URL of the front design preview',
@@ -80,18 +77,13 @@ export class UpdateOrderItemDto {
   frontPreviewUrl?: string;
 
   @ApiPropertyOptional({
-    description: 'Updated back design data for customization',
-    example: {
-      x: 150,
-      y: 250,
-      scale: 1.0,
-      rotation: 0,
-      imageUrl: 'https://example.com/back-design.png',
-    },
+    description: 'Updated back design document',
+    type: DesignDocumentDto,
     required: false,
   })
   @IsOptional()
-  backDesign?: any;
+  @IsDesignDocument()
+  backDesign?: DesignDocumentDto;
 
   @ApiPropertyOptional({
     description: 'Updated URL of the back design preview',
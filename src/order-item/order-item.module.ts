@@ -7,9 +7,17 @@ import { PrismaModule } from '../prisma/prisma.module';
 import { OrderModule } from '../order/order.module';
 import { VariantModule } from '../variant/variant.module';
 import { AuthModule } from '../auth/auth.module';
+import { PrintFileModule } from '../print-file/print-file.module';
 
 @Module({
-  imports: [PrismaModule, OrderModule, VariantModule, ConfigModule, AuthModule],
+  imports: [
+    PrismaModule,
+    OrderModule,
+    VariantModule,
+    ConfigModule,
+    AuthModule,
+    PrintFileModule,
+  ],
   controllers: [OrderItemController],
   providers: [OrderItemService],
 })
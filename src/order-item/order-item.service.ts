@@ -6,10 +6,14 @@ import {
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateOrderItemRequestDto } from './dto/create-order-item.dto';
 import { UpdateOrderItemDto } from './dto/update-order-item.dto';
+import { MockupService } from '../print-file/mockup.service';
 
 @Injectable()
 export class OrderItemService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private mockupService: MockupService,
+  ) {}
 
   async create(createOrderItemDto: CreateOrderItemRequestDto) {
     // Check if order exists
@@ -46,7 +50,12 @@ export class OrderItemService {
       },
     });
 
-    return orderItem;
+    // Previews are rendered on the server from the design and variant photos
+    await this.mockupService.tryGenerateForOrderItems([orderItem.id]);
+
+    return this.prisma.orderItem.findUniqueOrThrow({
+      where: { id: orderItem.id },
+    });
   }
 
   async findAll(orderId?: number) {
@@ -147,6 +156,15 @@ export class OrderItemService {
       },
     });
 
+    if (
+      updateOrderItemDto.frontDesign ||
+      updateOrderItemDto.backDesign ||
+      updateOrderItemDto.variantId
+    ) {
+      await this.mockupService.tryGenerateForOrderItems([id]);
+      return this.prisma.orderItem.findUniqueOrThrow({ where: { id } });
+    }
+
     // No need to parse JSON fields since Prisma handles Json type automatically
     return updatedOrderItem;
   }
@@ -0,0 +1,110 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsPhoneNumber,
+  IsPositive,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { PaymentMethod, Region } from '@prisma/client';
+
+// Saqlangan manzil tanlanmasa, manzil maydonlari majburiy
+const withoutSavedAddress = (dto: CheckoutDto) =>
+  dto.addressId === undefined || dto.addressId === null;
+
+export class CheckoutDto {
+  @ApiPropertyOptional({
+    description:
+      'One of your saved addresses. Without it the address fields are required',
+    example: 3,
+  })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  addressId?: number;
+
+  @ApiPropertyOptional({ example: 'Izzat Toirov' })
+  @ValidateIf(withoutSavedAddress)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  customerName?: string;
+
+  @ApiPropertyOptional({ example: '+998901234567' })
+  @ValidateIf(withoutSavedAddress)
+  @IsPhoneNumber('UZ')
+  customerPhone?: string;
+
+  @ApiPropertyOptional({
+    enum: Region,
+    description: 'Must be covered by a shipping zone',
+    example: Region.TASHKENT_CITY,
+  })
+  @ValidateIf(withoutSavedAddress)
+  @IsEnum(Region)
+  region?: Region;
+
+  @ApiPropertyOptional({ example: 'Chilonzor' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  district?: string;
+
+  @ApiPropertyOptional({ example: "Bunyodkor ko'chasi, 12-uy" })
+  @ValidateIf(withoutSavedAddress)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  address?: string;
+
+  @ApiPropertyOptional({ example: 'Metro yonida' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  landmark?: string;
+
+  @ApiPropertyOptional({
+    description: 'Note for the courier or the print shop',
+    example: 'Please call before delivery',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+
+  @ApiPropertyOptional({
+    enum: PaymentMethod,
+    default: PaymentMethod.COD,
+    description:
+      'COD is paid in cash on delivery, the others online upfront. Guests can only use COD',
+  })
+  @IsOptional()
+  @IsEnum(PaymentMethod)
+  paymentMethod?: PaymentMethod;
+
+  @ApiPropertyOptional({
+    description: 'Replaces the code applied to the cart, if any',
+    example: 'AUTUMN20',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  couponCode?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Client-generated key. Repeating a checkout with the same key returns the first order instead of placing a new one',
+    example: '3f1c9a52-7d1e-4c47-9a43-0c5f0e1b2d6a',
+  })
+  @IsOptional()
+  @Matches(/^[A-Za-z0-9_-]{8,100}$/, {
+    message:
+      'idempotencyKey must be 8-100 characters of letters, digits, "-" or "_"',
+  })
+  idempotencyKey?: string;
+}
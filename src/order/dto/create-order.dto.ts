@@ -1,17 +1,16 @@
 import {
   IsArray,
   IsString,
-  IsEnum,
   IsNumber,
   Min,
   IsOptional,
   ValidateNested,
-  IsPhoneNumber,
-  IsObject,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { OrderStatus, PaymentStatus } from '@prisma/client';
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { DesignDocumentDto } from '../../design/dto/design-document.dto';
+import { IsDesignDocument } from '../../design/decorators/is-design-document.decorator';
+import { CheckoutDto } from './checkout.dto';
 
 export class CreateOrderItemRequestDto {
   @ApiProperty({ example: 1 })
@@ -26,27 +25,39 @@ export class CreateOrderItemRequestDto {
   @Min(1)
   quantity: number;
 
-  @ApiPropertyOptional({ example: 49.99 })
+  @ApiPropertyOptional({
+    example: 49.99,
+    description:
+      'Expected unit price. Only checked against the server price, never stored',
+  })
   @IsOptional()
   @Type(() => Number)
   @IsNumber()
   @Min(0)
   price?: number;
 
-  @ApiPropertyOptional({ type: Object })
+  @ApiPropertyOptional({ type: DesignDocumentDto })
   @IsOptional()
-  @IsObject() // Obyekt ekanligini tasdiqlash
-  frontDesign?: any;
+  @IsDesignDocument() // Eski versiyalar joriy sxemaga o'tkazilib tekshiriladi
+  frontDesign?: DesignDocumentDto;
 
+  @ApiPropertyOptional({
+    description: 'Ignored: previews are generated on the server',
+    deprecated: true,
+  })
   @IsOptional()
   @IsString()
   frontPreviewUrl?: string;
 
-  @ApiPropertyOptional({ type: Object })
+  @ApiPropertyOptional({ type: DesignDocumentDto })
   @IsOptional()
-  @IsObject()
-  backDesign?: any;
+  @IsDesignDocument()
+  backDesign?: DesignDocumentDto;
 
+  @ApiPropertyOptional({
+    description: 'Ignored: previews are generated on the server',
+    deprecated: true,
+  })
   @IsOptional()
   @IsString()
   backPreviewUrl?: string;
@@ -56,46 +67,20 @@ export class CreateOrderItemRequestDto {
   finalPrintFile?: string;
 }
 
-export class CreateOrderDto {
-  @ApiProperty({ example: 'John Doe' })
-  @IsString()
-  customerName: string;
-
-  @ApiProperty({ example: '+998901234567' })
-  @IsPhoneNumber('UZ')
-  customerPhone: string;
-
-  @ApiProperty({ example: 'Tashkent' })
-  @IsString()
-  region: string;
-
-  @ApiProperty({ example: "Navoiy ko'chasi" })
-  @IsString()
-  address: string;
-
-  @ApiProperty({ example: 99.99 })
-  @Type(() => Number)
-  @IsNumber()
-  @Min(0)
-  totalPrice: number;
-
-  @ApiPropertyOptional({
-    description: 'Order status',
-    enum: OrderStatus,
-    default: OrderStatus.PENDING,
-  })
-  @IsOptional()
-  @IsEnum(OrderStatus)
-  status?: OrderStatus = OrderStatus.PENDING;
-
+// Manzil, to'lov usuli va boshqa maydonlar checkout bilan bir xil tekshiriladi
+export class CreateOrderDto extends OmitType(CheckoutDto, [
+  'couponCode',
+] as const) {
   @ApiPropertyOptional({
-    description: 'Payment status',
-    enum: PaymentStatus,
-    default: PaymentStatus.UNPAID,
+    example: 99.99,
+    description:
+      'Expected order total. The order is priced on the server; a mismatch is rejected',
   })
   @IsOptional()
-  @IsEnum(PaymentStatus)
-  paymentStatus?: PaymentStatus = PaymentStatus.UNPAID;
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  totalPrice?: number;
 
   @ApiProperty({ type: [CreateOrderItemRequestDto] })
   @IsArray()
@@ -0,0 +1,23 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OrderStatus } from '@prisma/client';
+
+export class UpdateOrderStatusDto {
+  @ApiProperty({
+    description: 'New order status',
+    enum: OrderStatus,
+    example: OrderStatus.PROCESSING,
+  })
+  @IsEnum(OrderStatus)
+  status: OrderStatus;
+
+  @ApiPropertyOptional({
+    description: 'Note stored in the status history',
+    example: 'Printing started',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
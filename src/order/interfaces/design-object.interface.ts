@@ -1,9 +0,0 @@
-export interface DesignObject {
-  x?: number;
-  y?: number;
-  scale?: number;
-  rotation?: number;
-  text?: string;
-  color?: string;
-  imageUrl?: string;
-}
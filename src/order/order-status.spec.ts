@@ -0,0 +1,68 @@
+import { OrderStatus, PaymentMethod } from '@prisma/client';
+import { canTransition } from './order-status';
+
+describe('canTransition', () => {
+  it('follows the prepaid flow step by step', () => {
+    expect(canTransition(OrderStatus.PENDING, OrderStatus.PAID)).toBe(true);
+    expect(canTransition(OrderStatus.PAID, OrderStatus.PROCESSING)).toBe(true);
+    expect(canTransition(OrderStatus.PROCESSING, OrderStatus.SHIPPED)).toBe(
+      true,
+    );
+    expect(canTransition(OrderStatus.SHIPPED, OrderStatus.DELIVERED)).toBe(
+      true,
+    );
+  });
+
+  it('rejects skipped and backward steps', () => {
+    expect(canTransition(OrderStatus.PENDING, OrderStatus.SHIPPED)).toBe(false);
+    expect(canTransition(OrderStatus.SHIPPED, OrderStatus.PROCESSING)).toBe(
+      false,
+    );
+    expect(canTransition(OrderStatus.PAID, OrderStatus.PENDING)).toBe(false);
+  });
+
+  it('allows cancelling only before production starts', () => {
+    expect(canTransition(OrderStatus.PENDING, OrderStatus.CANCELLED)).toBe(
+      true,
+    );
+    expect(canTransition(OrderStatus.PAID, OrderStatus.CANCELLED)).toBe(true);
+    expect(canTransition(OrderStatus.PROCESSING, OrderStatus.CANCELLED)).toBe(
+      false,
+    );
+  });
+
+  it('treats DELIVERED and CANCELLED as final', () => {
+    for (const to of Object.values(OrderStatus)) {
+      expect(canTransition(OrderStatus.DELIVERED, to)).toBe(false);
+      expect(canTransition(OrderStatus.CANCELLED, to)).toBe(false);
+    }
+  });
+
+  it('lets cash on delivery orders go to production unpaid', () => {
+    expect(
+      canTransition(
+        OrderStatus.PENDING,
+        OrderStatus.PROCESSING,
+        PaymentMethod.COD,
+      ),
+    ).toBe(true);
+    expect(
+      canTransition(OrderStatus.PENDING, OrderStatus.PAID, PaymentMethod.COD),
+    ).toBe(false);
+  });
+
+  it('keeps prepaid orders waiting for payment', () => {
+    for (const method of [
+      PaymentMethod.CARD,
+      PaymentMethod.PAYME,
+      PaymentMethod.CLICK,
+    ]) {
+      expect(
+        canTransition(OrderStatus.PENDING, OrderStatus.PROCESSING, method),
+      ).toBe(false);
+      expect(canTransition(OrderStatus.PENDING, OrderStatus.PAID, method)).toBe(
+        true,
+      );
+    }
+  });
+});
@@ -0,0 +1,29 @@
+import { OrderStatus, PaymentMethod } from '@prisma/client';
+import { isPrepaid } from './payment-method';
+
+// Ruxsat etilgan holat o'tishlari: PENDING → PAID → PROCESSING → SHIPPED → DELIVERED
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.PAID, OrderStatus.CANCELLED],
+  [OrderStatus.PAID]: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
+  [OrderStatus.PROCESSING]: [OrderStatus.SHIPPED],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED],
+  [OrderStatus.DELIVERED]: [],
+  [OrderStatus.CANCELLED]: [],
+};
+
+// Naqd to'lovli buyurtma to'lovni kutmasdan ishlab chiqarishga o'tadi
+const COD_STATUS_TRANSITIONS: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  [OrderStatus.PENDING]: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
+};
+
+export function canTransition(
+  from: OrderStatus,
+  to: OrderStatus,
+  paymentMethod?: PaymentMethod,
+): boolean {
+  const transitions =
+    paymentMethod && !isPrepaid(paymentMethod)
+      ? (COD_STATUS_TRANSITIONS[from] ?? ORDER_STATUS_TRANSITIONS[from])
+      : ORDER_STATUS_TRANSITIONS[from];
+  return transitions.includes(to);
+}
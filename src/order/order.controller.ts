@@ -14,23 +14,35 @@ import {
   ForbiddenException,
   UnauthorizedException,
   Query,
+  UseInterceptors,
 } from '@nestjs/common';
 import { OrderService } from './order.service';
+import { CartService } from '../cart/cart.service';
+import { PrintFileService } from '../print-file/print-file.service';
 import { CreateOrderDto } from './dto/create-order.dto';
+import { CheckoutDto } from './dto/checkout.dto';
 import { UpdateOrderDto } from './dto/update-order.dto';
+import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
 import { BaseQueryDto } from '../common/dto/base-query.dto';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import { Role } from '@prisma/client';
 import { ApiBearerAuth } from '@nestjs/swagger';
+import { isAdmin } from '../common/security/admin-roles';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
 
 @Controller('orders')
 export class OrderController {
-  constructor(private readonly orderService: OrderService) {}
+  constructor(
+    private readonly orderService: OrderService,
+    private readonly cartService: CartService,
+    private readonly printFileService: PrintFileService,
+  ) {}
 
   @Post()
   @UseGuards(JwtAuthGuard, RolesGuard)
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiBearerAuth()
   @HttpCode(HttpStatus.CREATED)
   create(@Body() createOrderDto: CreateOrderDto, @Request() req) {
@@ -42,14 +54,16 @@ export class OrderController {
 
   @Post('checkout')
   @UseGuards(JwtAuthGuard)
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiBearerAuth()
   @HttpCode(HttpStatus.CREATED)
-  async placeOrderFromCart(@Request() req, @Body() shippingDetails: any) {
+  async placeOrderFromCart(@Request() req, @Body() dto: CheckoutDto) {
     // Extract userId from JWT token, never from request body
     if (!req.user || !req.user.id) {
       throw new UnauthorizedException('User not authenticated');
     }
-    return this.orderService.placeOrderFromCart(req.user.id, shippingDetails);
+    // Checkout savatcha servisida: /cart/checkout bilan bitta oqim
+    return this.cartService.convertCartToOrder({ userId: req.user.id }, dto);
   }
 
   @Get()
@@ -57,8 +71,8 @@ export class OrderController {
   @ApiBearerAuth()
   @HttpCode(HttpStatus.OK)
   async findAll(@Request() req, @Query() query: BaseQueryDto) {
-    // Admins can view all orders, regular users can only view their own orders
-    if (req.user.role === Role.USER) {
+    // Admins can view all orders, everyone else only their own orders
+    if (!isAdmin(req.user.role)) {
       return this.orderService.findUserOrders(req.user.id);
     } else {
       // Admins can see all orders
@@ -79,8 +93,8 @@ export class OrderController {
   @ApiBearerAuth()
   @HttpCode(HttpStatus.OK)
   async findOne(@Param('id', ParseIntPipe) id: number, @Request() req) {
-    // Check ownership for regular users
-    if (req.user.role === Role.USER) {
+    // Check ownership for non-admin users
+    if (!isAdmin(req.user.role)) {
       const order = await this.orderService.findOne(id);
       if (order.userId !== req.user.id) {
         throw new ForbiddenException('You can only access your own orders');
@@ -99,9 +113,32 @@ export class OrderController {
   @HttpCode(HttpStatus.OK)
   updateStatus(
     @Param('id', ParseIntPipe) id: number,
-    @Body() updateOrderDto: UpdateOrderDto,
+    @Body() updateOrderStatusDto: UpdateOrderStatusDto,
+    @Request() req,
   ) {
-    return this.orderService.update(id, updateOrderDto);
+    return this.orderService.updateStatus(
+      id,
+      updateOrderStatusDto,
+      req.user.id,
+    );
+  }
+
+  @Get(':id/history')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  async getStatusHistory(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req,
+  ) {
+    const timeline = await this.orderService.getStatusHistory(id);
+
+    // Non-admin users can only see the timeline of their own orders
+    if (!isAdmin(req.user.role) && timeline.order.userId !== req.user.id) {
+      throw new ForbiddenException('You can only access your own orders');
+    }
+
+    return timeline;
   }
 
   @Patch(':id')
@@ -114,10 +151,10 @@ export class OrderController {
     @Request() req,
   ) {
     // Only admins can update orders
-    if (req.user.role === Role.USER) {
+    if (!isAdmin(req.user.role)) {
       throw new ForbiddenException('Only admins can update orders');
     }
-    return this.orderService.update(id, updateOrderDto);
+    return this.orderService.update(id, updateOrderDto, req.user.id);
   }
 
   @Delete(':id')
@@ -142,4 +179,18 @@ export class OrderController {
   getOrderPrintDetails(@Param('id', ParseIntPipe) id: number) {
     return this.orderService.getOrderPrintDetails(id);
   }
+
+  /**
+   * Admin endpoint to render front and back print files for every item of an order
+   * @param id The order ID
+   * @returns Generated print file URLs per order item
+   */
+  @Post(':id/print-files/generate')
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  generatePrintFiles(@Param('id', ParseIntPipe) id: number) {
+    return this.printFileService.generateOrderPrintFiles(id);
+  }
 }
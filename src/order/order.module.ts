@@ -10,6 +10,13 @@ import { CartModule } from '../cart/cart.module';
 import { AuthModule } from '../auth/auth.module';
 import { SecurityModule } from '../common/security/security.module';
 import { MailModule } from '../mail/mail.module';
+import { PricingModule } from '../pricing/pricing.module';
+import { StockModule } from '../stock/stock.module';
+import { PrintFileModule } from '../print-file/print-file.module';
+import { CouponModule } from '../coupon/coupon.module';
+import { ShippingModule } from '../shipping/shipping.module';
+import { AddressModule } from '../address/address.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
 
 @Module({
   imports: [
@@ -21,6 +28,13 @@ import { MailModule } from '../mail/mail.module';
     AuthModule,
     SecurityModule,
     MailModule,
+    PricingModule,
+    StockModule,
+    PrintFileModule,
+    CouponModule,
+    ShippingModule,
+    AddressModule,
+    IdempotencyModule,
   ],
   controllers: [OrderController],
   providers: [OrderService],
@@ -0,0 +1,119 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { PricingService } from '../pricing/pricing.service';
+import { StockService } from '../stock/stock.service';
+import { MockupService } from '../print-file/mockup.service';
+import { CouponService } from '../coupon/coupon.service';
+import { ShippingService } from '../shipping/shipping.service';
+import { AddressService } from '../address/address.service';
+import { CreateOrderDto } from './dto/create-order.dto';
+import { OrderService } from './order.service';
+
+// Test qilinmaydigan bog'liqliklar bo'sh obyekt sifatida beriladi
+const createService = (
+  prisma: object,
+  addressService: object = {},
+): OrderService =>
+  new OrderService(
+    prisma as PrismaService,
+    {} as MailService,
+    {} as PricingService,
+    {} as StockService,
+    {} as MockupService,
+    {} as CouponService,
+    {} as ShippingService,
+    addressService as AddressService,
+  );
+
+describe('OrderService remove', () => {
+  let findUnique: jest.Mock;
+  let deleteOrder: jest.Mock;
+  let service: OrderService;
+
+  // remove() o'qiydigan buyurtma: faqat to'lov va yetkazish tarixi soni
+  const storedOrder = (
+    paymentSessions = 0,
+    transactions = 0,
+    shipment: { id: number } | null = null,
+  ) => ({
+    id: 5,
+    _count: { paymentSessions, transactions },
+    shipment,
+  });
+
+  beforeEach(() => {
+    findUnique = jest.fn();
+    deleteOrder = jest.fn().mockResolvedValue({ id: 5 });
+    service = createService({
+      order: { findUnique, delete: deleteOrder },
+    });
+  });
+
+  it('deletes an order without payment or shipment history', async () => {
+    findUnique.mockResolvedValue(storedOrder());
+
+    await expect(service.remove(5)).resolves.toEqual({
+      message: 'Order with ID 5 has been deleted',
+    });
+    expect(deleteOrder).toHaveBeenCalledWith({ where: { id: 5 } });
+  });
+
+  it.each([
+    ['a payment session', storedOrder(1)],
+    ['a ledger transaction', storedOrder(0, 1)],
+    ['a shipment', storedOrder(0, 0, { id: 3 })],
+  ])('refuses to delete an order with %s', async (_, order) => {
+    findUnique.mockResolvedValue(order);
+
+    await expect(service.remove(5)).rejects.toBeInstanceOf(ConflictException);
+    expect(deleteOrder).not.toHaveBeenCalled();
+  });
+
+  it('throws NotFoundException for an unknown order', async () => {
+    findUnique.mockResolvedValue(null);
+
+    await expect(service.remove(5)).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
+
+describe('OrderService create', () => {
+  const dto = {
+    idempotencyKey: 'order-key-1',
+    items: [],
+  } as unknown as CreateOrderDto;
+
+  it('returns the order created by a concurrent retry with the same key', async () => {
+    const findUnique = jest
+      .fn()
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: 11 });
+    const service = createService(
+      {
+        order: { findUnique },
+        $transaction: jest.fn().mockRejectedValue(
+          new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+            code: 'P2002',
+            clientVersion: 'test',
+          }),
+        ),
+      },
+      { resolveForCheckout: jest.fn().mockResolvedValue({}) },
+    );
+    const findOne = jest
+      .spyOn(service, 'findOne')
+      .mockResolvedValue({ id: 11 } as Awaited<
+        ReturnType<OrderService['findOne']>
+      >);
+
+    await expect(service.create(dto, 7)).resolves.toEqual({ id: 11 });
+    expect(findUnique).toHaveBeenLastCalledWith({
+      where: {
+        userId_idempotencyKey: { userId: 7, idempotencyKey: 'order-key-1' },
+      },
+      select: { id: true },
+    });
+    expect(findOne).toHaveBeenCalledWith(11);
+  });
+});
@@ -3,77 +3,159 @@ import {
   NotFoundException,
   BadRequestException,
   ForbiddenException,
+  ConflictException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { Order, OrderStatus, PaymentStatus } from '@prisma/client';
 import { Prisma } from '@prisma/client';
 import { MailService } from '../mail/mail.service';
+import {
+  PricingService,
+  roundMoney,
+  toPriceBreakdown,
+} from '../pricing/pricing.service';
+import { syncOrderPaymentStatus } from '../payment/payment-ledger.service';
+import { StockService } from '../stock/stock.service';
+import { canTransition } from './order-status';
+import { resolvePaymentMethod } from './payment-method';
+import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
+import { MockupService } from '../print-file/mockup.service';
+import { CouponService } from '../coupon/coupon.service';
+import { ShippingService, toOrderShipping } from '../shipping/shipping.service';
+import { matchRegions } from '../shipping/region';
+import { AddressService } from '../address/address.service';
+import { CreateOrderDto } from './dto/create-order.dto';
+import { UpdateOrderDto } from './dto/update-order.dto';
 
 @Injectable()
 export class OrderService {
   constructor(
     private prisma: PrismaService,
     private mailService: MailService,
+    private pricingService: PricingService,
+    private stockService: StockService,
+    private mockupService: MockupService,
+    private couponService: CouponService,
+    private shippingService: ShippingService,
+    private addressService: AddressService,
   ) {}
 
-  async create(orderData: any, userId: number) {
-    // Prefer frontend-provided totalPrice; fall back to calculating from items if needed
-    const totalPriceFromBody = Number(orderData?.totalPrice);
-    const totalPrice = Number.isFinite(totalPriceFromBody) && totalPriceFromBody >= 0
-      ? totalPriceFromBody
-      : orderData.items.reduce((sum: number, item: any) => {
-          return sum + Number(item.price) * Number(item.quantity);
-        }, 0);
+  async create(orderData: CreateOrderDto, userId: number) {
+    const replayed = await this.findByIdempotencyKey(
+      userId,
+      orderData.idempotencyKey,
+    );
+    if (replayed) return this.findOne(replayed.id);
+
+    // Saved addresses are copied onto the order, so later edits don't change it
+    const destination = await this.addressService.resolveForCheckout(
+      userId,
+      orderData,
+    );
 
     // Use Prisma transaction for complex operations
-    const result = await this.prisma.$transaction(async (tx) => {
-      const order = await tx.order.create({
-        data: {
-          userId, // Use the userId from JWT token, not from orderData
-          status: orderData.status || OrderStatus.PENDING, // Use correct enum value
-          paymentStatus: orderData.paymentStatus || PaymentStatus.UNPAID, // Use correct enum value
+    let result: { id: number };
+    try {
+      result = await this.prisma.$transaction(async (tx) => {
+        // Prices always come from Variant.price; client values are only checked, never trusted
+        const priced = await this.pricingService.priceItems(
+          orderData.items.map((item) => ({
+            variantId: Number(item.variantId),
+            quantity: Number(item.quantity),
+            frontDesign: item.frontDesign,
+            backDesign: item.backDesign,
+          })),
+          tx,
+        );
+        const totalPrice = priced.subtotal;
+
+        this.pricingService.assertClientTotals(
+          priced,
           totalPrice,
-          customerName: orderData.customerName,
-          customerPhone: orderData.customerPhone,
-          region: orderData.region || 'Unknown',
-          address: orderData.address || orderData.deliveryAddress || 'Unknown',
-          items: {
-            create: orderData.items.map((item: any) => ({
-              variantId: Number(item.variantId), // Ensure number conversion
-              quantity: Number(item.quantity), // Ensure number conversion
-              price: Number(item.price), // Ensure number conversion
-              frontDesign: item.frontDesign || undefined,
-              backDesign: item.backDesign || undefined,
-              frontPreviewUrl: item.frontPreviewUrl,
-              backPreviewUrl: item.backPreviewUrl,
-            })),
+          orderData.totalPrice,
+          orderData.items.map((item) => item.price),
+        );
+
+        const shipping = await this.shippingService.quote(
+          destination.region,
+          totalPrice,
+          tx,
+        );
+
+        await this.stockService.reserve(tx, priced.lines);
+
+        const order = await tx.order.create({
+          data: {
+            userId, // Use the userId from JWT token, not from orderData
+            // New orders always start at PENDING; later changes go through updateStatus
+            status: OrderStatus.PENDING,
+            paymentStatus: PaymentStatus.UNPAID,
+            paymentMethod: resolvePaymentMethod(orderData.paymentMethod),
+            totalPrice,
+            ...toOrderShipping(shipping),
+            ...destination,
+            customerNote: orderData.note,
+            idempotencyKey: orderData.idempotencyKey,
+            items: {
+              create: orderData.items.map((item, index) => ({
+                variantId: Number(item.variantId), // Ensure number conversion
+                quantity: Number(item.quantity), // Ensure number conversion
+                price: priced.lines[index].unitPrice, // Server-side price snapshot
+                priceBreakdown: toPriceBreakdown(priced.lines[index]),
+                frontDesign: item.frontDesign || undefined,
+                backDesign: item.backDesign || undefined,
+              })),
+            },
+            statusHistory: {
+              create: {
+                toStatus: OrderStatus.PENDING,
+                actorId: userId,
+                note: 'Order placed',
+              },
+            },
           },
-        },
-        include: {
-          items: {
-            include: {
-              variant: {
-                include: {
-                  product: true,
+          include: {
+            items: {
+              include: {
+                variant: {
+                  include: {
+                    product: true,
+                  },
                 },
               },
             },
-          },
-          user: {
-            select: {
-              id: true,
-              fullName: true,
-              email: true,
-              phone: true,
+            user: {
+              select: {
+                id: true,
+                fullName: true,
+                email: true,
+                phone: true,
+              },
             },
           },
-        },
+        });
+
+        return order;
       });
+    } catch (error) {
+      // A concurrent retry with the same key created the order first
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const existing = await this.findByIdempotencyKey(
+          userId,
+          orderData.idempotencyKey,
+        );
+        if (existing) return this.findOne(existing.id);
+      }
+      throw error;
+    }
 
-      return order;
-    });
+    // Previews are rendered on the server; client-uploaded ones are ignored
+    await this.mockupService.tryGenerateMissingForOrder(result.id);
 
-    return result;
+    return this.findOne(result.id);
   }
 
   async findAll(
@@ -106,7 +188,7 @@ export class OrderService {
       whereClause.OR = [
         { customerPhone: { contains: search, mode: 'insensitive' } },
         { customerName: { contains: search, mode: 'insensitive' } },
-        { region: { contains: search, mode: 'insensitive' } },
+        { region: { in: matchRegions(search) } },
         { address: { contains: search, mode: 'insensitive' } },
       ];
     }
@@ -164,6 +246,12 @@ export class OrderService {
             },
           },
         },
+        discounts: true,
+        shipment: {
+          include: {
+            courier: { select: { id: true, fullName: true, phone: true } },
+          },
+        },
         user: {
           select: {
             id: true,
@@ -182,56 +270,101 @@ export class OrderService {
     return order;
   }
 
-  async update(id: number, updateData: any) {
-    // Recalculate total price if items are updated
-    let totalPrice = undefined;
-    if (updateData.items) {
-      totalPrice = updateData.items.reduce((sum: number, item: any) => {
-        return sum + Number(item.price) * Number(item.quantity); // Ensure number conversion
-      }, 0);
-    }
+  async update(id: number, updateData: UpdateOrderDto, actorId?: number) {
+    const { items, status } = updateData;
 
-    const updatePayload: any = { ...updateData };
-    if (totalPrice !== undefined) {
-      updatePayload.totalPrice = totalPrice;
-    }
+    // Status, items and totals are handled separately below; paymentStatus
+    // is derived from the payment ledger and never written directly
+    const updatePayload: Prisma.OrderUpdateInput = {
+      customerName: updateData.customerName,
+      customerPhone: updateData.customerPhone,
+      address: updateData.address,
+    };
 
-    // Remove items from payload as they need to be handled separately
-    if (updatePayload.items) {
-      delete updatePayload.items;
-    }
+    await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.order.findUnique({
+        where: { id },
+        select: { status: true },
+      });
 
-    // Ensure userId cannot be changed during update
-    delete updatePayload.userId;
+      if (!existing) {
+        throw new NotFoundException(`Order with ID ${id} not found`);
+      }
 
-    const order = await this.prisma.order.update({
-      where: { id },
-      data: updatePayload,
-      include: {
-        items: true,
-      },
-    });
+      // Status changes must follow the transition graph and are recorded in history
+      if (status && status !== existing.status) {
+        await this.transitionStatus(tx, id, status, actorId);
+      }
 
-    // If items were provided, update them
-    if (updateData.items) {
-      // First, delete existing items
-      await this.prisma.orderItem.deleteMany({
-        where: { orderId: id },
-      });
+      // Replaced items are priced from Variant.price, like new orders
+      const priced = items
+        ? await this.pricingService.priceItems(
+            items.map((item) => ({
+              variantId: Number(item.variantId),
+              quantity: Number(item.quantity),
+              frontDesign: item.frontDesign,
+              backDesign: item.backDesign,
+            })),
+            tx,
+          )
+        : undefined;
+      if (priced) {
+        const discountTotal = await this.couponService.repriceOrder(
+          tx,
+          id,
+          priced.lines,
+        );
+        updatePayload.discountTotal = discountTotal;
+        updatePayload.totalPrice = roundMoney(priced.subtotal - discountTotal);
+      }
 
-      // Then create new items
-      await this.prisma.orderItem.createMany({
-        data: updateData.items.map((item: any) => ({
-          orderId: id,
-          variantId: Number(item.variantId), // Ensure number conversion
-          quantity: Number(item.quantity), // Ensure number conversion
-          price: Number(item.price), // Ensure number conversion
-          frontDesign: item.frontDesign || undefined,
-          backDesign: item.backDesign || undefined,
-          frontPreviewUrl: item.frontPreviewUrl,
-          backPreviewUrl: item.backPreviewUrl,
-        })),
+      await tx.order.update({
+        where: { id },
+        data: updatePayload,
       });
+
+      // A new total can turn a paid order into a partially paid one
+      if (priced) {
+        await syncOrderPaymentStatus(tx, id);
+      }
+
+      // If items were provided, update them
+      if (items && priced) {
+        const { status: currentStatus } = await tx.order.findUniqueOrThrow({
+          where: { id },
+          select: { status: true },
+        });
+        const holdsStock = currentStatus !== OrderStatus.CANCELLED;
+
+        // First, return the old items to stock and delete them
+        if (holdsStock) {
+          await this.stockService.releaseOrder(tx, id);
+        }
+        await tx.orderItem.deleteMany({
+          where: { orderId: id },
+        });
+
+        // Then create new items
+        await tx.orderItem.createMany({
+          data: items.map((item, index) => ({
+            orderId: id,
+            variantId: Number(item.variantId), // Ensure number conversion
+            quantity: Number(item.quantity), // Ensure number conversion
+            price: priced.lines[index].unitPrice, // Server-side price snapshot
+            priceBreakdown: toPriceBreakdown(priced.lines[index]),
+            frontDesign: item.frontDesign || undefined,
+            backDesign: item.backDesign || undefined,
+          })),
+        });
+
+        if (holdsStock) {
+          await this.stockService.reserve(tx, priced.lines);
+        }
+      }
+    });
+
+    if (items) {
+      await this.mockupService.tryGenerateMissingForOrder(id);
     }
 
     // Return updated order with items
@@ -251,117 +384,152 @@ export class OrderService {
     });
   }
 
-  async remove(id: number) {
-    const order = await this.prisma.order.findUnique({
+  async updateStatus(id: number, dto: UpdateOrderStatusDto, actorId?: number) {
+    await this.prisma.$transaction(async (tx) => {
+      await this.transitionStatus(tx, id, dto.status, actorId, dto.note);
+    });
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Moves an order to a new status inside an existing transaction
+   * @param tx The transaction client
+   * @param id The order ID
+   * @param toStatus The target status, which must be allowed from the current one
+   * @param actorId The user performing the change, if any
+   * @param note Optional note stored in the status history
+   */
+  async transitionStatus(
+    tx: Prisma.TransactionClient,
+    id: number,
+    toStatus: OrderStatus,
+    actorId?: number | null,
+    note?: string,
+  ) {
+    const order = await tx.order.findUnique({
       where: { id },
+      select: { status: true, paymentMethod: true },
     });
 
     if (!order) {
       throw new NotFoundException(`Order with ID ${id} not found`);
     }
 
-    await this.prisma.order.delete({
-      where: { id },
+    if (!canTransition(order.status, toStatus, order.paymentMethod)) {
+      throw new BadRequestException(
+        `Cannot change order status from ${order.status} to ${toStatus}`,
+      );
+    }
+
+    // Conditional update guards against two concurrent transitions from the same status
+    const { count } = await tx.order.updateMany({
+      where: { id, status: order.status },
+      data: { status: toStatus },
     });
 
-    return { message: `Order with ID ${id} has been deleted` };
+    if (count === 0) {
+      throw new ConflictException(
+        `Order #${id} status was changed by another request`,
+      );
+    }
+
+    if (toStatus === OrderStatus.CANCELLED) {
+      await this.stockService.releaseOrder(tx, id);
+      await this.couponService.releaseOrder(tx, id);
+    }
+
+    // Yetkazilgan deb belgilansa, jo'natma ham yopiladi
+    if (toStatus === OrderStatus.DELIVERED) {
+      await tx.shipment.updateMany({
+        where: { orderId: id, deliveredAt: null },
+        data: { deliveredAt: new Date() },
+      });
+    }
+
+    return tx.orderStatusHistory.create({
+      data: {
+        orderId: id,
+        fromStatus: order.status,
+        toStatus,
+        actorId: actorId ?? null,
+        note,
+      },
+    });
   }
 
-  async placeOrderFromCart(userId: number, shippingDetails: any) {
-    // Get user's cart with items
-    const cart = await this.prisma.cart.findFirst({
-      where: { userId },
+  async getStatusHistory(id: number) {
+    const order = await this.prisma.order.findUnique({
+      where: { id },
+      select: { id: true, userId: true, status: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${id} not found`);
+    }
+
+    const history = await this.prisma.orderStatusHistory.findMany({
+      where: { orderId: id },
       include: {
-        items: {
-          include: {
-            variant: {
-              include: {
-                product: true,
-              },
-            },
+        actor: {
+          select: {
+            id: true,
+            fullName: true,
+            role: true,
           },
         },
       },
+      orderBy: { createdAt: 'asc' },
     });
 
-    if (!cart || cart.items.length === 0) {
-      throw new BadRequestException('Cart is empty');
-    }
+    return { order, history };
+  }
 
-    // Validate relations
-    for (const item of cart.items) {
-      if (!item.variant) {
-        throw new BadRequestException(
-          `Variant with ID ${item.variantId} not found`,
-        );
-      }
-    }
+  /**
+   * Deletes an order. Orders with payment sessions, ledger transactions or a
+   * shipment keep their history and can only be cancelled.
+   * @param id The order ID
+   */
+  async remove(id: number) {
+    const order = await this.prisma.order.findUnique({
+      where: { id },
+      include: {
+        _count: { select: { paymentSessions: true, transactions: true } },
+        shipment: { select: { id: true } },
+      },
+    });
 
-    // Calculate total price
-    const totalPrice = cart.items.reduce((sum, item) => {
-      return sum + item.variant.price * item.quantity;
-    }, 0);
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${id} not found`);
+    }
 
-    // Validate total price is not zero or negative
-    if (totalPrice <= 0) {
-      throw new BadRequestException('Total price must be greater than zero');
+    if (
+      order._count.paymentSessions > 0 ||
+      order._count.transactions > 0 ||
+      order.shipment
+    ) {
+      throw new ConflictException(
+        `Order with ID ${id} has payment or shipment history and cannot be deleted`,
+      );
     }
 
-    // Create order in a transaction
-    const order = await this.prisma.$transaction(async (tx) => {
-      const createdOrder = await tx.order.create({
-        data: {
-          userId,
-          status: OrderStatus.PENDING, // Use correct enum value
-          paymentStatus: PaymentStatus.UNPAID, // Use correct enum value
-          totalPrice,
-          customerName: shippingDetails.customerName,
-          customerPhone: shippingDetails.customerPhone,
-          region: shippingDetails.region || 'Unknown',
-          address:
-            shippingDetails.address ||
-            shippingDetails.deliveryAddress ||
-            'Unknown',
-          items: {
-            create: cart.items.map((item) => ({
-              variantId: Number(item.variantId), // Ensure number conversion
-              quantity: Number(item.quantity), // Ensure number conversion
-              price: Number(item.variant.price), // Ensure number conversion
-              frontDesign: item.frontDesign || undefined,
-              backDesign: item.backDesign || undefined,
-              frontPreviewUrl: item.frontPreviewUrl,
-              backPreviewUrl: item.backPreviewUrl,
-            })),
-          },
-        },
-        include: {
-          items: {
-            include: {
-              variant: {
-                include: {
-                  product: true,
-                },
-              },
-            },
-          },
-          user: {
-            select: {
-              id: true,
-              fullName: true,
-              email: true,
-              phone: true,
-            },
-          },
-        },
-      });
+    await this.prisma.order.delete({
+      where: { id },
+    });
 
-      // Clear the cart after creating the order
-      await tx.cartItem.deleteMany({
-        where: { cartId: cart.id },
-      });
+    return { message: `Order with ID ${id} has been deleted` };
+  }
 
-      return createdOrder;
-    });
+  /**
+   * Emails the customer a confirmation with the item thumbnails. Guest
+   * orders have no email; a mail failure never fails the checkout.
+   * @param orderId The order that was just placed
+   */
+  async sendOrderConfirmation(orderId: number) {
+    const order = await this.findOne(orderId);
+    const thumbnails = await this.getItemThumbnails(order.id);
+
+    const amountDue = roundMoney(order.totalPrice + order.shippingFee);
 
     // Send order confirmation email to the user
     if (order.user?.email) {
@@ -369,13 +537,20 @@ export class OrderService {
         await this.mailService.sendSmsToMail(
           order.user.email,
           'Order Confirmation',
-          `Your order #${order.id} has been placed successfully. Total: $${order.totalPrice}. We will process your order soon.`,
+          `Your order #${order.id} has been placed successfully. Total: $${amountDue}. We will process your order soon.`,
           `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
             <h2 style="color: #333;">Order Confirmation</h2>
             <p>Dear ${order.user.fullName},</p>
             <p>Your order #${order.id} has been placed successfully.</p>
-            <p><strong>Total Amount:</strong> $${order.totalPrice}</p>
+            <p><strong>Delivery:</strong> $${order.shippingFee}</p>
+            <p><strong>Total Amount:</strong> $${amountDue}</p>
             <p><strong>Status:</strong> ${order.status}</p>
+            ${thumbnails
+              .map(
+                (url) =>
+                  `<img src="${url}" alt="Order item" width="160" style="margin: 4px; border: 1px solid #eee;">`,
+              )
+              .join('')}
             <p>We will process your order soon. Thank you for shopping with us!</p>
             <hr style="margin: 20px 0;">
             <p style="font-size: 12px; color: #666;">This is an automated message, please do not reply to this email.</p>
@@ -386,8 +561,28 @@ export class OrderService {
         // Don't throw an error as this shouldn't fail the order creation
       }
     }
+  }
 
-    return order;
+  private findByIdempotencyKey(userId: number, idempotencyKey?: string) {
+    if (!idempotencyKey) return null;
+    return this.prisma.order.findUnique({
+      where: { userId_idempotencyKey: { userId, idempotencyKey } },
+      select: { id: true },
+    });
+  }
+
+  // Absolute thumbnail URLs for emails; local files are served under API_URL
+  private async getItemThumbnails(orderId: number): Promise<string[]> {
+    const items = await this.prisma.orderItem.findMany({
+      where: { orderId },
+      select: { frontThumbnailUrl: true, backThumbnailUrl: true },
+    });
+    const apiUrl = (process.env.API_URL || '').replace(/\/$/, '');
+
+    return items
+      .flatMap((item) => [item.frontThumbnailUrl, item.backThumbnailUrl])
+      .filter((url): url is string => !!url)
+      .map((url) => (url.startsWith('/') ? `${apiUrl}${url}` : url));
   }
 
   async findUserOrders(userId: number) {
@@ -0,0 +1,32 @@
+import { BadRequestException } from '@nestjs/common';
+import { PaymentMethod } from '@prisma/client';
+
+// Oldindan onlayn to'lanadigan usullar; COD esa yetkazib berishda naqd to'lanadi
+export const PREPAID_PAYMENT_METHODS: PaymentMethod[] = [
+  PaymentMethod.CARD,
+  PaymentMethod.PAYME,
+  PaymentMethod.CLICK,
+];
+
+export function isPrepaid(method: PaymentMethod): boolean {
+  return PREPAID_PAYMENT_METHODS.includes(method);
+}
+
+/**
+ * Reads the payment method from an unvalidated checkout body.
+ * Orders default to cash on delivery when no method is given.
+ * @param value The raw paymentMethod value
+ */
+export function resolvePaymentMethod(value: unknown): PaymentMethod {
+  if (value === undefined || value === null || value === '') {
+    return PaymentMethod.COD;
+  }
+
+  if (!Object.values<unknown>(PaymentMethod).includes(value)) {
+    throw new BadRequestException(
+      `paymentMethod must be one of: ${Object.values(PaymentMethod).join(', ')}`,
+    );
+  }
+
+  return value as PaymentMethod;
+}
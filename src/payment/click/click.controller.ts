@@ -0,0 +1,23 @@
+import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { ClickService } from './click.service';
+import type { ClickRequest } from './click.service';
+
+// Click callback'lari form-urlencoded keladi, javob doim HTTP 200
+@ApiExcludeController()
+@Controller('payments/click')
+export class ClickController {
+  constructor(private readonly clickService: ClickService) {}
+
+  @Post('prepare')
+  @HttpCode(HttpStatus.OK)
+  prepare(@Body() body: ClickRequest) {
+    return this.clickService.prepare(body);
+  }
+
+  @Post('complete')
+  @HttpCode(HttpStatus.OK)
+  complete(@Body() body: ClickRequest) {
+    return this.clickService.complete(body);
+  }
+}
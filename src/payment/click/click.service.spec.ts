@@ -0,0 +1,184 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentProvider, PaymentSessionStatus } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaymentService } from '../payment.service';
+import {
+  ClickAction,
+  ClickErrorCode,
+  ClickRequest,
+  ClickService,
+} from './click.service';
+
+const SECRET_KEY = 'test-secret';
+const SERVICE_ID = '101';
+
+const md5 = (value: string) => createHash('md5').update(value).digest('hex');
+
+// Click hujjatidagi tartib: merchant_prepare_id faqat Complete'da qatnashadi
+function sign(request: ClickRequest, secretKey = SECRET_KEY): ClickRequest {
+  const prepareId =
+    request.action === String(ClickAction.COMPLETE)
+      ? request.merchant_prepare_id
+      : '';
+  return {
+    ...request,
+    sign_string: md5(
+      `${request.click_trans_id}${request.service_id}${secretKey}` +
+        `${request.merchant_trans_id}${prepareId}${request.amount}` +
+        `${request.action}${request.sign_time}`,
+    ),
+  };
+}
+
+describe('ClickService signature check', () => {
+  let findUnique: jest.Mock;
+  let service: ClickService;
+
+  const prepareRequest: ClickRequest = {
+    click_trans_id: '5551',
+    service_id: SERVICE_ID,
+    merchant_trans_id: '42',
+    amount: '150000',
+    action: String(ClickAction.PREPARE),
+    sign_time: '2026-10-18 12:00:00',
+  };
+
+  const completeRequest: ClickRequest = {
+    ...prepareRequest,
+    action: String(ClickAction.COMPLETE),
+    merchant_prepare_id: '42',
+    error: '0',
+  };
+
+  beforeEach(() => {
+    // Sessiya topilmasa ORDER_NOT_FOUND qaytadi: imzo tekshiruvidan o'tganining belgisi
+    findUnique = jest.fn().mockResolvedValue(null);
+    service = new ClickService(
+      { paymentSession: { findUnique } } as unknown as PrismaService,
+      new ConfigService({
+        CLICK_SECRET_KEY: SECRET_KEY,
+        CLICK_SERVICE_ID: SERVICE_ID,
+      }),
+      {} as PaymentService,
+    );
+  });
+
+  it('accepts a correctly signed Prepare', async () => {
+    const response = await service.prepare(sign(prepareRequest));
+
+    expect(response.error).toBe(ClickErrorCode.ORDER_NOT_FOUND);
+    expect(findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  it('accepts a correctly signed Complete, including merchant_prepare_id', async () => {
+    const response = await service.complete(sign(completeRequest));
+
+    expect(response.error).toBe(ClickErrorCode.ORDER_NOT_FOUND);
+  });
+
+  it('accepts an uppercase signature', async () => {
+    const signed = sign(prepareRequest);
+
+    const response = await service.prepare({
+      ...signed,
+      sign_string: signed.sign_string!.toUpperCase(),
+    });
+
+    expect(response.error).toBe(ClickErrorCode.ORDER_NOT_FOUND);
+  });
+
+  it('rejects a signature made with another secret key', async () => {
+    const response = await service.prepare(
+      sign(prepareRequest, 'other-secret'),
+    );
+
+    expect(response.error).toBe(ClickErrorCode.SIGN_CHECK_FAILED);
+    expect(findUnique).not.toHaveBeenCalled();
+  });
+
+  it('rejects a request changed after signing', async () => {
+    const response = await service.prepare({
+      ...sign(prepareRequest),
+      amount: '1000',
+    });
+
+    expect(response.error).toBe(ClickErrorCode.SIGN_CHECK_FAILED);
+  });
+
+  it('rejects a Complete signed without merchant_prepare_id', async () => {
+    const response = await service.complete({
+      ...completeRequest,
+      sign_string: md5(
+        `${completeRequest.click_trans_id}${SERVICE_ID}${SECRET_KEY}` +
+          `${completeRequest.merchant_trans_id}${completeRequest.amount}` +
+          `${completeRequest.action}${completeRequest.sign_time}`,
+      ),
+    });
+
+    expect(response.error).toBe(ClickErrorCode.SIGN_CHECK_FAILED);
+  });
+
+  it('rejects every request while CLICK_SECRET_KEY is not set', async () => {
+    service = new ClickService(
+      { paymentSession: { findUnique } } as unknown as PrismaService,
+      new ConfigService({ CLICK_SERVICE_ID: SERVICE_ID }),
+      {} as PaymentService,
+    );
+
+    const response = await service.prepare(sign(prepareRequest, ''));
+
+    expect(response.error).toBe(ClickErrorCode.SIGN_CHECK_FAILED);
+  });
+});
+
+describe('ClickService complete', () => {
+  const request: ClickRequest = {
+    click_trans_id: '5551',
+    service_id: SERVICE_ID,
+    merchant_trans_id: '42',
+    merchant_prepare_id: '42',
+    amount: '150000',
+    action: String(ClickAction.COMPLETE),
+    sign_time: '2026-10-18 12:00:00',
+    error: '0',
+  };
+
+  it('cancels the session when another payment settled the order first', async () => {
+    const paymentService = {
+      isPayable: jest.fn().mockReturnValue(true),
+      getOutstandingAmount: jest.fn().mockResolvedValue(150000),
+      // Tekshiruvdan keyin parallel to'lov qoldiqni yopdi
+      markPaid: jest
+        .fn()
+        .mockRejectedValue(new ConflictException('Already paid')),
+      markCancelled: jest.fn().mockResolvedValue(undefined),
+    };
+    const service = new ClickService(
+      {
+        paymentSession: {
+          findUnique: jest.fn().mockResolvedValue({
+            id: 42,
+            orderId: 7,
+            provider: PaymentProvider.CLICK,
+            status: PaymentSessionStatus.PROCESSING,
+            externalId: '5551',
+            amount: 150000,
+            order: {},
+          }),
+        },
+      } as unknown as PrismaService,
+      new ConfigService({
+        CLICK_SECRET_KEY: SECRET_KEY,
+        CLICK_SERVICE_ID: SERVICE_ID,
+      }),
+      paymentService as unknown as PaymentService,
+    );
+
+    const response = await service.complete(sign(request));
+
+    expect(response.error).toBe(ClickErrorCode.ALREADY_PAID);
+    expect(paymentService.markCancelled).toHaveBeenCalledWith(42);
+  });
+});
@@ -0,0 +1,296 @@
+import { ConflictException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PaymentProvider,
+  PaymentSessionStatus,
+  PaymentStatus,
+} from '@prisma/client';
+import { createHash, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaymentService } from '../payment.service';
+
+// Click Shop API xato kodlari
+export enum ClickErrorCode {
+  SUCCESS = 0,
+  SIGN_CHECK_FAILED = -1,
+  INVALID_AMOUNT = -2,
+  ACTION_NOT_FOUND = -3,
+  ALREADY_PAID = -4,
+  ORDER_NOT_FOUND = -5,
+  TRANSACTION_NOT_FOUND = -6,
+  BAD_REQUEST = -8,
+  TRANSACTION_CANCELLED = -9,
+}
+
+export enum ClickAction {
+  PREPARE = 0,
+  COMPLETE = 1,
+}
+
+export type ClickRequest = Record<string, string | undefined>;
+
+export interface ClickResponse {
+  click_trans_id: string | null;
+  merchant_trans_id: string | null;
+  merchant_prepare_id?: number | null;
+  merchant_confirm_id?: number | null;
+  error: ClickErrorCode;
+  error_note: string;
+}
+
+const REQUIRED_FIELDS = [
+  'click_trans_id',
+  'service_id',
+  'merchant_trans_id',
+  'amount',
+  'action',
+  'sign_time',
+  'sign_string',
+];
+
+// Summalar tiyin aniqligida solishtiriladi
+const AMOUNT_TOLERANCE = 0.01;
+
+/**
+ * Click Shop API. Click first sends Prepare (action=0) to check the payment
+ * can be made, then Complete (action=1) with the result. merchant_trans_id
+ * is our payment session ID. Every request is signed with an MD5 of its
+ * fields and the shared secret key.
+ */
+@Injectable()
+export class ClickService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private paymentService: PaymentService,
+  ) {}
+
+  async prepare(request: ClickRequest): Promise<ClickResponse> {
+    const response = this.createResponse(request);
+
+    const invalid = this.validate(request, ClickAction.PREPARE);
+    if (invalid !== ClickErrorCode.SUCCESS) {
+      return this.fail(response, invalid);
+    }
+
+    const session = await this.findSession(request.merchant_trans_id);
+    if (!session) {
+      return this.fail(response, ClickErrorCode.ORDER_NOT_FOUND);
+    }
+
+    if (session.status === PaymentSessionStatus.PAID) {
+      return this.fail(response, ClickErrorCode.ALREADY_PAID);
+    }
+    if (session.status === PaymentSessionStatus.CANCELLED) {
+      return this.fail(response, ClickErrorCode.TRANSACTION_CANCELLED);
+    }
+    // Bir xil Prepare qayta kelsa, avvalgi javob qaytariladi
+    if (
+      session.status === PaymentSessionStatus.PROCESSING &&
+      session.externalId !== request.click_trans_id
+    ) {
+      return this.fail(response, ClickErrorCode.TRANSACTION_NOT_FOUND);
+    }
+
+    if (!this.paymentService.isPayable(session.order)) {
+      return this.fail(
+        response,
+        session.order.paymentStatus === PaymentStatus.PAID
+          ? ClickErrorCode.ALREADY_PAID
+          : ClickErrorCode.TRANSACTION_CANCELLED,
+      );
+    }
+
+    // Boshqa provayder orqali to'lov davom etayotgan bo'lsa, ikkinchisi boshlanmaydi
+    if (
+      await this.paymentService.findProcessingSession(
+        session.orderId,
+        session.id,
+      )
+    ) {
+      return this.fail(response, ClickErrorCode.TRANSACTION_CANCELLED);
+    }
+
+    const outstanding = await this.paymentService.getOutstandingAmount(
+      session.orderId,
+    );
+    if (!this.amountMatches(request.amount, outstanding)) {
+      return this.fail(response, ClickErrorCode.INVALID_AMOUNT);
+    }
+
+    if (session.status === PaymentSessionStatus.PENDING) {
+      await this.prisma.paymentSession.update({
+        where: { id: session.id },
+        data: {
+          status: PaymentSessionStatus.PROCESSING,
+          amount: outstanding,
+          externalId: request.click_trans_id,
+          externalTime: this.parseSignTime(request.sign_time),
+          startedAt: new Date(),
+        },
+      });
+    }
+
+    return { ...response, merchant_prepare_id: session.id };
+  }
+
+  async complete(request: ClickRequest): Promise<ClickResponse> {
+    const response = this.createResponse(request);
+
+    const invalid = this.validate(request, ClickAction.COMPLETE);
+    if (invalid !== ClickErrorCode.SUCCESS) {
+      return this.fail(response, invalid);
+    }
+
+    const session = await this.findSession(request.merchant_trans_id);
+    if (!session) {
+      return this.fail(response, ClickErrorCode.ORDER_NOT_FOUND);
+    }
+
+    if (
+      String(session.id) !== request.merchant_prepare_id ||
+      session.externalId !== request.click_trans_id
+    ) {
+      return this.fail(response, ClickErrorCode.TRANSACTION_NOT_FOUND);
+    }
+
+    if (session.status === PaymentSessionStatus.PAID) {
+      return this.fail(response, ClickErrorCode.ALREADY_PAID);
+    }
+    if (session.status === PaymentSessionStatus.CANCELLED) {
+      return this.fail(response, ClickErrorCode.TRANSACTION_CANCELLED);
+    }
+
+    // Click to'lov muvaffaqiyatsiz bo'lganini error < 0 orqali bildiradi
+    if (Number(request.error) < 0) {
+      await this.paymentService.markCancelled(
+        session.id,
+        Number(request.error),
+      );
+      return this.fail(response, ClickErrorCode.TRANSACTION_CANCELLED);
+    }
+
+    if (!this.amountMatches(request.amount, session.amount)) {
+      return this.fail(response, ClickErrorCode.INVALID_AMOUNT);
+    }
+
+    if (!this.paymentService.isPayable(session.order)) {
+      await this.paymentService.markCancelled(session.id);
+      return this.fail(response, ClickErrorCode.TRANSACTION_CANCELLED);
+    }
+
+    // Prepare'dan keyin buyurtma boshqa yo'l bilan to'langan bo'lsa, ortiqcha yechilmaydi
+    const outstanding = await this.paymentService.getOutstandingAmount(
+      session.orderId,
+    );
+    if (session.amount > outstanding) {
+      await this.paymentService.markCancelled(session.id);
+      return this.fail(response, ClickErrorCode.ALREADY_PAID);
+    }
+
+    try {
+      await this.paymentService.markPaid(session.id);
+    } catch (error) {
+      // Tekshiruvdan keyin parallel to'lov qoldiqni yopgan bo'lishi mumkin
+      if (error instanceof ConflictException) {
+        await this.paymentService.markCancelled(session.id);
+        return this.fail(response, ClickErrorCode.ALREADY_PAID);
+      }
+      throw error;
+    }
+
+    return { ...response, merchant_confirm_id: session.id };
+  }
+
+  private validate(request: ClickRequest, action: ClickAction): ClickErrorCode {
+    const fields =
+      action === ClickAction.COMPLETE
+        ? [...REQUIRED_FIELDS, 'merchant_prepare_id']
+        : REQUIRED_FIELDS;
+    if (!request || fields.some((field) => !request[field])) {
+      return ClickErrorCode.BAD_REQUEST;
+    }
+
+    if (!this.isSignatureValid(request, action)) {
+      return ClickErrorCode.SIGN_CHECK_FAILED;
+    }
+
+    if (Number(request.action) !== action) {
+      return ClickErrorCode.ACTION_NOT_FOUND;
+    }
+
+    if (
+      request.service_id !== this.configService.get<string>('CLICK_SERVICE_ID')
+    ) {
+      return ClickErrorCode.BAD_REQUEST;
+    }
+
+    return ClickErrorCode.SUCCESS;
+  }
+
+  // sign_string = md5(click_trans_id + service_id + SECRET_KEY + merchant_trans_id
+  //   [+ merchant_prepare_id] + amount + action + sign_time)
+  private isSignatureValid(
+    request: ClickRequest,
+    action: ClickAction,
+  ): boolean {
+    const secretKey = this.configService.get<string>('CLICK_SECRET_KEY');
+    if (!secretKey) return false;
+
+    const expected = createHash('md5')
+      .update(
+        [
+          request.click_trans_id,
+          request.service_id,
+          secretKey,
+          request.merchant_trans_id,
+          action === ClickAction.COMPLETE ? request.merchant_prepare_id : '',
+          request.amount,
+          request.action,
+          request.sign_time,
+        ].join(''),
+      )
+      .digest('hex');
+
+    const provided = Buffer.from(String(request.sign_string).toLowerCase());
+    return (
+      provided.length === expected.length &&
+      timingSafeEqual(provided, Buffer.from(expected))
+    );
+  }
+
+  private async findSession(merchantTransId?: string) {
+    const sessionId = Number(merchantTransId);
+    if (!Number.isInteger(sessionId)) return null;
+
+    const session = await this.prisma.paymentSession.findUnique({
+      where: { id: sessionId },
+      include: { order: true },
+    });
+
+    return session?.provider === PaymentProvider.CLICK ? session : null;
+  }
+
+  private amountMatches(amount: string | undefined, expected: number) {
+    return Math.abs(Number(amount) - expected) < AMOUNT_TOLERANCE;
+  }
+
+  // Click sign_time formati: "YYYY-MM-DD HH:mm:ss" (Toshkent vaqti)
+  private parseSignTime(signTime?: string): Date {
+    const date = new Date(`${signTime?.replace(' ', 'T')}+05:00`);
+    return Number.isNaN(date.getTime()) ? new Date() : date;
+  }
+
+  private createResponse(request: ClickRequest): ClickResponse {
+    return {
+      click_trans_id: request?.click_trans_id ?? null,
+      merchant_trans_id: request?.merchant_trans_id ?? null,
+      error: ClickErrorCode.SUCCESS,
+      error_note: 'Success',
+    };
+  }
+
+  private fail(response: ClickResponse, error: ClickErrorCode): ClickResponse {
+    return { ...response, error, error_note: ClickErrorCode[error] };
+  }
+}
@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class CompleteMockPaymentDto {
+  @ApiPropertyOptional({
+    description: 'Whether the simulated payment succeeds',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  success?: boolean;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { PaymentProvider } from '@prisma/client';
+
+export class CreatePaymentSessionDto {
+  @ApiProperty({
+    description: 'Payment provider',
+    enum: PaymentProvider,
+    example: PaymentProvider.PAYME,
+  })
+  @IsEnum(PaymentProvider)
+  provider: PaymentProvider;
+}
@@ -0,0 +1,37 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateRefundDto {
+  @ApiPropertyOptional({
+    description: 'Amount to refund; defaults to everything paid so far',
+    example: 50000,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Why the money is returned',
+    example: 'Customer cancelled before production',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description: 'Refund reference in the provider cabinet, if any',
+    example: '6720f3b1e4b0c9a1f2d3e4f5',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  externalId?: string;
+}
@@ -0,0 +1,20 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class PaymentReportQueryDto {
+  @ApiPropertyOptional({
+    description: 'Start of the period (inclusive), ISO 8601',
+    example: '2026-10-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'End of the period (exclusive), ISO 8601',
+    example: '2026-11-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
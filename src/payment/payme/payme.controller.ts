@@ -0,0 +1,27 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+} from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { PaymeService } from './payme.service';
+import type { PaymeRequest } from './payme.service';
+
+// Payme callback'i: xatolar ham HTTP 200 bilan JSON-RPC formatida qaytariladi
+@ApiExcludeController()
+@Controller('payments/payme')
+export class PaymeController {
+  constructor(private readonly paymeService: PaymeService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  handle(
+    @Body() body: PaymeRequest,
+    @Headers('authorization') authorization?: string,
+  ) {
+    return this.paymeService.handle(body, authorization);
+  }
+}
@@ -0,0 +1,105 @@
+// Payme Merchant API xato kodlari
+export enum PaymeErrorCode {
+  INVALID_AMOUNT = -31001,
+  TRANSACTION_NOT_FOUND = -31003,
+  CANNOT_CANCEL = -31007,
+  CANNOT_PERFORM = -31008,
+  ORDER_NOT_FOUND = -31050,
+  ORDER_NOT_PAYABLE = -31051,
+  ORDER_BUSY = -31052,
+  PARSE_ERROR = -32700,
+  INVALID_REQUEST = -32600,
+  METHOD_NOT_FOUND = -32601,
+  INSUFFICIENT_PRIVILEGE = -32504,
+  SYSTEM_ERROR = -32400,
+}
+
+export interface PaymeErrorMessage {
+  uz: string;
+  ru: string;
+  en: string;
+}
+
+const MESSAGES: Record<PaymeErrorCode, PaymeErrorMessage> = {
+  [PaymeErrorCode.INVALID_AMOUNT]: {
+    uz: "Noto'g'ri summa",
+    ru: 'Неверная сумма',
+    en: 'Invalid amount',
+  },
+  [PaymeErrorCode.TRANSACTION_NOT_FOUND]: {
+    uz: 'Tranzaksiya topilmadi',
+    ru: 'Транзакция не найдена',
+    en: 'Transaction not found',
+  },
+  [PaymeErrorCode.CANNOT_CANCEL]: {
+    uz: "Tranzaksiyani bekor qilib bo'lmaydi",
+    ru: 'Невозможно отменить транзакцию',
+    en: 'Transaction cannot be cancelled',
+  },
+  [PaymeErrorCode.CANNOT_PERFORM]: {
+    uz: "Amalni bajarib bo'lmaydi",
+    ru: 'Невозможно выполнить операцию',
+    en: 'Operation cannot be performed',
+  },
+  [PaymeErrorCode.ORDER_NOT_FOUND]: {
+    uz: 'Buyurtma topilmadi',
+    ru: 'Заказ не найден',
+    en: 'Order not found',
+  },
+  [PaymeErrorCode.ORDER_NOT_PAYABLE]: {
+    uz: "Buyurtmani to'lab bo'lmaydi",
+    ru: 'Заказ не может быть оплачен',
+    en: 'Order cannot be paid',
+  },
+  [PaymeErrorCode.ORDER_BUSY]: {
+    uz: "Buyurtma boshqa tranzaksiya orqali to'lanmoqda",
+    ru: 'Заказ оплачивается другой транзакцией',
+    en: 'Order is being paid by another transaction',
+  },
+  [PaymeErrorCode.PARSE_ERROR]: {
+    uz: "JSON noto'g'ri",
+    ru: 'Ошибка разбора JSON',
+    en: 'Parse error',
+  },
+  [PaymeErrorCode.INVALID_REQUEST]: {
+    uz: "So'rov noto'g'ri",
+    ru: 'Неверный запрос',
+    en: 'Invalid request',
+  },
+  [PaymeErrorCode.METHOD_NOT_FOUND]: {
+    uz: 'Metod topilmadi',
+    ru: 'Метод не найден',
+    en: 'Method not found',
+  },
+  [PaymeErrorCode.INSUFFICIENT_PRIVILEGE]: {
+    uz: "Ruxsat yo'q",
+    ru: 'Недостаточно привилегий',
+    en: 'Insufficient privilege',
+  },
+  [PaymeErrorCode.SYSTEM_ERROR]: {
+    uz: 'Tizim xatosi',
+    ru: 'Системная ошибка',
+    en: 'System error',
+  },
+};
+
+/**
+ * Error returned to Payme inside a JSON-RPC response.
+ * data names the request field the error refers to (e.g. order_id).
+ */
+export class PaymeError extends Error {
+  constructor(
+    readonly code: PaymeErrorCode,
+    readonly data?: string,
+  ) {
+    super(MESSAGES[code].en);
+  }
+
+  toJSON() {
+    return {
+      code: this.code,
+      message: MESSAGES[this.code],
+      ...(this.data !== undefined && { data: this.data }),
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaymentService } from '../payment.service';
+import { PaymeErrorCode } from './payme.errors';
+import { PaymeService } from './payme.service';
+
+const PAYME_KEY = 'test-merchant-key';
+
+const basicAuth = (login: string, password: string) =>
+  `Basic ${Buffer.from(`${login}:${password}`).toString('base64')}`;
+
+describe('PaymeService authorization', () => {
+  const createService = (config: Record<string, string>) =>
+    new PaymeService(
+      {} as PrismaService,
+      new ConfigService(config),
+      {} as PaymentService,
+    );
+
+  const errorCode = (response: object) =>
+    'error' in response
+      ? (response.error as { code: PaymeErrorCode }).code
+      : undefined;
+
+  // Noma'lum metod bazaga murojaat qilmaydi, shuning uchun avtorizatsiyadan o'tganini ko'rsatadi
+  const request = { id: 7, method: 'UnknownMethod', params: {} };
+
+  it('accepts Basic auth with the Paycom login and merchant key', async () => {
+    const service = createService({ PAYME_KEY });
+
+    const response = await service.handle(
+      request,
+      basicAuth('Paycom', PAYME_KEY),
+    );
+
+    expect(response.id).toBe(7);
+    expect(errorCode(response)).toBe(PaymeErrorCode.METHOD_NOT_FOUND);
+  });
+
+  it.each([
+    ['no header', undefined],
+    ['a wrong key', basicAuth('Paycom', 'wrong-key')],
+    ['a wrong login', basicAuth('Payme', PAYME_KEY)],
+    ['another scheme', `Bearer ${PAYME_KEY}`],
+    ['a lowercase scheme', basicAuth('Paycom', PAYME_KEY).toLowerCase()],
+  ])('rejects a request with %s', async (_, authorization) => {
+    const service = createService({ PAYME_KEY });
+
+    const response = await service.handle(request, authorization);
+
+    expect(errorCode(response)).toBe(PaymeErrorCode.INSUFFICIENT_PRIVILEGE);
+  });
+
+  it('rejects every request while PAYME_KEY is not set', async () => {
+    const service = createService({});
+
+    const response = await service.handle(request, basicAuth('Paycom', ''));
+
+    expect(errorCode(response)).toBe(PaymeErrorCode.INSUFFICIENT_PRIVILEGE);
+  });
+});
@@ -0,0 +1,367 @@
+import { ConflictException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PaymentProvider,
+  PaymentSession,
+  PaymentSessionStatus,
+} from '@prisma/client';
+import { timingSafeEqual } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaymentService } from '../payment.service';
+import { toTiyin } from '../payment-checkout.service';
+import { PaymeError, PaymeErrorCode } from './payme.errors';
+
+export interface PaymeRequest {
+  id?: number | string | null;
+  method?: string;
+  params?: Record<string, any>;
+}
+
+export type PaymeResponse =
+  | { jsonrpc: '2.0'; id: number | string | null; result: unknown }
+  | {
+      jsonrpc: '2.0';
+      id: number | string | null;
+      error: ReturnType<PaymeError['toJSON']>;
+    };
+
+// Payme tranzaksiya holatlari
+enum PaymeState {
+  CREATED = 1,
+  PERFORMED = 2,
+  CANCELLED = -1,
+  CANCELLED_AFTER_PERFORM = -2,
+}
+
+// Bajarilmagan tranzaksiya 12 soatdan keyin bekor qilinadi
+const TRANSACTION_TIMEOUT_MS = 12 * 60 * 60 * 1000;
+const TIMEOUT_CANCEL_REASON = 4;
+
+/**
+ * Payme Merchant API (JSON-RPC). Payme calls the merchant endpoint with
+ * Basic auth "Paycom:<key>" and expects HTTP 200 with either result or error.
+ */
+@Injectable()
+export class PaymeService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private paymentService: PaymentService,
+  ) {}
+
+  async handle(
+    request: PaymeRequest,
+    authorization?: string,
+  ): Promise<PaymeResponse> {
+    const id = request?.id ?? null;
+
+    try {
+      if (!this.isAuthorized(authorization)) {
+        throw new PaymeError(PaymeErrorCode.INSUFFICIENT_PRIVILEGE);
+      }
+
+      if (
+        !request ||
+        typeof request.method !== 'string' ||
+        typeof request.params !== 'object' ||
+        request.params === null
+      ) {
+        throw new PaymeError(PaymeErrorCode.INVALID_REQUEST);
+      }
+
+      const result = await this.dispatch(request.method, request.params);
+      return { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      if (error instanceof PaymeError) {
+        return { jsonrpc: '2.0', id, error: error.toJSON() };
+      }
+
+      console.error('Payme request error:', error);
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: new PaymeError(PaymeErrorCode.SYSTEM_ERROR).toJSON(),
+      };
+    }
+  }
+
+  private dispatch(method: string, params: Record<string, any>) {
+    switch (method) {
+      case 'CheckPerformTransaction':
+        return this.checkPerformTransaction(params);
+      case 'CreateTransaction':
+        return this.createTransaction(params);
+      case 'PerformTransaction':
+        return this.performTransaction(params);
+      case 'CancelTransaction':
+        return this.cancelTransaction(params);
+      case 'CheckTransaction':
+        return this.checkTransaction(params);
+      case 'GetStatement':
+        return this.getStatement(params);
+      default:
+        throw new PaymeError(PaymeErrorCode.METHOD_NOT_FOUND, method);
+    }
+  }
+
+  private async checkPerformTransaction(params: Record<string, any>) {
+    await this.findPayableOrder(params);
+    return { allow: true };
+  }
+
+  private async createTransaction(params: Record<string, any>) {
+    const externalId = this.getTransactionId(params);
+
+    const existing = await this.findTransaction(externalId);
+    if (existing) {
+      if (existing.status !== PaymentSessionStatus.PROCESSING) {
+        throw new PaymeError(PaymeErrorCode.CANNOT_PERFORM);
+      }
+      await this.cancelIfExpired(existing);
+      return this.toCreateResult(existing);
+    }
+
+    const { order, outstanding } = await this.findPayableOrder(params);
+
+    // Bitta buyurtma uchun faqat bitta ochiq tranzaksiya bo'lishi mumkin (har qanday provayder)
+    const active = await this.paymentService.findProcessingSession(order.id);
+    if (active) {
+      throw new PaymeError(PaymeErrorCode.ORDER_BUSY, 'order_id');
+    }
+
+    const data = {
+      amount: outstanding,
+      status: PaymentSessionStatus.PROCESSING,
+      externalId,
+      externalTime: new Date(Number(params.time) || Date.now()),
+      startedAt: new Date(),
+    };
+
+    // Mijoz /payments orqali yaratgan sessiya bo'lsa, o'shani ishlatamiz
+    const pending = await this.prisma.paymentSession.findFirst({
+      where: {
+        orderId: order.id,
+        provider: PaymentProvider.PAYME,
+        status: PaymentSessionStatus.PENDING,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const session = pending
+      ? await this.prisma.paymentSession.update({
+          where: { id: pending.id },
+          data,
+        })
+      : await this.prisma.paymentSession.create({
+          data: { ...data, orderId: order.id, provider: PaymentProvider.PAYME },
+        });
+
+    return this.toCreateResult(session);
+  }
+
+  private async performTransaction(params: Record<string, any>) {
+    const session = await this.getTransaction(params);
+
+    if (session.status === PaymentSessionStatus.PAID) {
+      return this.toPerformResult(session);
+    }
+
+    if (session.status !== PaymentSessionStatus.PROCESSING) {
+      throw new PaymeError(PaymeErrorCode.CANNOT_PERFORM);
+    }
+
+    await this.cancelIfExpired(session);
+
+    const order = await this.prisma.order.findUniqueOrThrow({
+      where: { id: session.orderId },
+    });
+    if (!this.paymentService.isPayable(order)) {
+      throw new PaymeError(PaymeErrorCode.CANNOT_PERFORM);
+    }
+
+    // Yaratilgandan keyin buyurtma boshqa yo'l bilan to'langan bo'lishi mumkin
+    const outstanding = await this.paymentService.getOutstandingAmount(
+      session.orderId,
+    );
+    if (session.amount > outstanding) {
+      throw new PaymeError(PaymeErrorCode.CANNOT_PERFORM);
+    }
+
+    try {
+      const paid = await this.paymentService.markPaid(session.id);
+      return this.toPerformResult(paid);
+    } catch (error) {
+      // Tekshiruvdan keyin parallel to'lov qoldiqni yopgan bo'lishi mumkin
+      if (error instanceof ConflictException) {
+        throw new PaymeError(PaymeErrorCode.CANNOT_PERFORM);
+      }
+      throw error;
+    }
+  }
+
+  private async cancelTransaction(params: Record<string, any>) {
+    const session = await this.getTransaction(params);
+
+    const reason = Number(params.reason) || undefined;
+    let cancelled = session;
+
+    if (session.status === PaymentSessionStatus.PAID) {
+      // Bajarilgan to'lov faqat buyurtma ishlab chiqarishga o'tmaguncha qaytariladi
+      const order = await this.prisma.order.findUniqueOrThrow({
+        where: { id: session.orderId },
+      });
+      if (!this.paymentService.canProviderRefund(order)) {
+        throw new PaymeError(PaymeErrorCode.CANNOT_CANCEL);
+      }
+      cancelled = await this.paymentService.refundSession(session.id, reason);
+    } else if (session.status !== PaymentSessionStatus.CANCELLED) {
+      cancelled = await this.paymentService.markCancelled(session.id, reason);
+    }
+
+    const { transaction, cancel_time, state } =
+      this.toTransactionResult(cancelled);
+    return { transaction, cancel_time, state };
+  }
+
+  private async checkTransaction(params: Record<string, any>) {
+    const session = await this.getTransaction(params);
+
+    return {
+      ...this.toTransactionResult(session),
+      reason: session.cancelReason,
+    };
+  }
+
+  private async getStatement(params: Record<string, any>) {
+    const from = Number(params.from);
+    const to = Number(params.to);
+    if (!Number.isFinite(from) || !Number.isFinite(to)) {
+      throw new PaymeError(PaymeErrorCode.INVALID_REQUEST);
+    }
+
+    const sessions = await this.prisma.paymentSession.findMany({
+      where: {
+        provider: PaymentProvider.PAYME,
+        externalId: { not: null },
+        externalTime: { gte: new Date(from), lte: new Date(to) },
+      },
+      orderBy: { externalTime: 'asc' },
+    });
+
+    return {
+      transactions: sessions.map((session) => ({
+        id: session.externalId,
+        time: session.externalTime?.getTime() ?? 0,
+        amount: toTiyin(session.amount),
+        account: { order_id: String(session.orderId) },
+        ...this.toTransactionResult(session),
+        reason: session.cancelReason,
+      })),
+    };
+  }
+
+  private async findPayableOrder(params: Record<string, any>) {
+    const orderId = Number(params.account?.order_id);
+    const order = Number.isInteger(orderId)
+      ? await this.prisma.order.findUnique({ where: { id: orderId } })
+      : null;
+
+    if (!order) {
+      throw new PaymeError(PaymeErrorCode.ORDER_NOT_FOUND, 'order_id');
+    }
+
+    if (!this.paymentService.isPayable(order)) {
+      throw new PaymeError(PaymeErrorCode.ORDER_NOT_PAYABLE, 'order_id');
+    }
+
+    // Qisman to'langan buyurtmada faqat qolgan summa qabul qilinadi
+    const outstanding = await this.paymentService.getOutstandingAmount(
+      order.id,
+    );
+    if (Number(params.amount) !== toTiyin(outstanding)) {
+      throw new PaymeError(PaymeErrorCode.INVALID_AMOUNT, 'amount');
+    }
+
+    return { order, outstanding };
+  }
+
+  private async getTransaction(params: Record<string, any>) {
+    const session = await this.findTransaction(this.getTransactionId(params));
+    if (!session) {
+      throw new PaymeError(PaymeErrorCode.TRANSACTION_NOT_FOUND);
+    }
+    return session;
+  }
+
+  private findTransaction(externalId: string) {
+    return this.prisma.paymentSession.findUnique({
+      where: {
+        provider_externalId: { provider: PaymentProvider.PAYME, externalId },
+      },
+    });
+  }
+
+  private getTransactionId(params: Record<string, any>): string {
+    if (typeof params.id !== 'string' || params.id.length === 0) {
+      throw new PaymeError(PaymeErrorCode.INVALID_REQUEST, 'id');
+    }
+    return params.id;
+  }
+
+  private async cancelIfExpired(session: PaymentSession): Promise<void> {
+    const startedAt = session.startedAt ?? session.createdAt;
+    if (Date.now() - startedAt.getTime() <= TRANSACTION_TIMEOUT_MS) return;
+
+    await this.paymentService.markCancelled(session.id, TIMEOUT_CANCEL_REASON);
+    throw new PaymeError(PaymeErrorCode.CANNOT_PERFORM);
+  }
+
+  private toCreateResult(session: PaymentSession) {
+    const { create_time, transaction, state } =
+      this.toTransactionResult(session);
+    return { create_time, transaction, state };
+  }
+
+  private toPerformResult(session: PaymentSession) {
+    const { transaction, perform_time, state } =
+      this.toTransactionResult(session);
+    return { transaction, perform_time, state };
+  }
+
+  private toTransactionResult(session: PaymentSession) {
+    return {
+      create_time: (session.startedAt ?? session.createdAt).getTime(),
+      perform_time: session.paidAt?.getTime() ?? 0,
+      cancel_time: session.cancelledAt?.getTime() ?? 0,
+      transaction: String(session.id),
+      state: this.getState(session),
+    };
+  }
+
+  private getState(session: PaymentSession): PaymeState {
+    switch (session.status) {
+      case PaymentSessionStatus.PAID:
+        return PaymeState.PERFORMED;
+      case PaymentSessionStatus.CANCELLED:
+        return session.paidAt
+          ? PaymeState.CANCELLED_AFTER_PERFORM
+          : PaymeState.CANCELLED;
+      default:
+        return PaymeState.CREATED;
+    }
+  }
+
+  private isAuthorized(authorization?: string): boolean {
+    const key = this.configService.get<string>('PAYME_KEY');
+    if (!key || !authorization) return false;
+
+    const expected = Buffer.from(
+      `Basic ${Buffer.from(`Paycom:${key}`).toString('base64')}`,
+    );
+    const provided = Buffer.from(authorization);
+
+    return (
+      expected.length === provided.length && timingSafeEqual(expected, provided)
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentProvider, PaymentSession } from '@prisma/client';
+
+const DEFAULT_PAYME_CHECKOUT_URL = 'https://checkout.paycom.uz';
+const DEFAULT_CLICK_CHECKOUT_URL = 'https://my.click.uz/services/pay';
+
+// Payme summalarni tiyinda qabul qiladi
+export function toTiyin(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+@Injectable()
+export class PaymentCheckoutService {
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * Builds the URL the customer is redirected to for paying a session
+   * @param session The payment session
+   */
+  getCheckoutUrl(session: PaymentSession): string {
+    switch (session.provider) {
+      case PaymentProvider.PAYME:
+        return this.getPaymeCheckoutUrl(session);
+      case PaymentProvider.CLICK:
+        return this.getClickCheckoutUrl(session);
+      case PaymentProvider.MOCK:
+        return `/api/payments/mock/sessions/${session.id}/complete`;
+    }
+  }
+
+  private getPaymeCheckoutUrl(session: PaymentSession): string {
+    const params = [
+      `m=${this.configService.get<string>('PAYME_MERCHANT_ID') ?? ''}`,
+      `ac.order_id=${session.orderId}`,
+      `a=${toTiyin(session.amount)}`,
+    ];
+    const returnUrl = this.getReturnUrl(session);
+    if (returnUrl) {
+      params.push(`c=${returnUrl}`);
+    }
+
+    const baseUrl =
+      this.configService.get<string>('PAYME_CHECKOUT_URL') ??
+      DEFAULT_PAYME_CHECKOUT_URL;
+    const encoded = Buffer.from(params.join(';')).toString('base64');
+    return `${baseUrl.replace(/\/$/, '')}/${encoded}`;
+  }
+
+  private getClickCheckoutUrl(session: PaymentSession): string {
+    const params = new URLSearchParams({
+      service_id: this.configService.get<string>('CLICK_SERVICE_ID') ?? '',
+      merchant_id: this.configService.get<string>('CLICK_MERCHANT_ID') ?? '',
+      amount: session.amount.toFixed(2),
+      transaction_param: String(session.id),
+    });
+    const returnUrl = this.getReturnUrl(session);
+    if (returnUrl) {
+      params.set('return_url', returnUrl);
+    }
+
+    const baseUrl =
+      this.configService.get<string>('CLICK_CHECKOUT_URL') ??
+      DEFAULT_CLICK_CHECKOUT_URL;
+    return `${baseUrl}?${params.toString()}`;
+  }
+
+  private getReturnUrl(session: PaymentSession): string | null {
+    const baseUrl =
+      this.configService.get<string>('PAYMENT_RETURN_URL') ??
+      this.configService.get<string>('FRONTEND_URL');
+    if (!baseUrl) return null;
+
+    return `${baseUrl.replace(/\/$/, '')}/orders/${session.orderId}`;
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  PaymentStatus,
+  PaymentTransactionStatus,
+  PaymentTransactionType,
+} from '@prisma/client';
+import { summarizeLedger } from './payment-ledger.service';
+
+const charge = (
+  amount: number,
+  status: PaymentTransactionStatus = PaymentTransactionStatus.SUCCEEDED,
+) => ({ type: PaymentTransactionType.CHARGE, status, amount });
+
+const refund = (amount: number) => ({
+  type: PaymentTransactionType.REFUND,
+  status: PaymentTransactionStatus.SUCCEEDED,
+  amount,
+});
+
+describe('summarizeLedger', () => {
+  it('treats an order without entries as unpaid', () => {
+    expect(summarizeLedger(100000, [])).toEqual({
+      totalPrice: 100000,
+      charged: 0,
+      refunded: 0,
+      paid: 0,
+      outstanding: 100000,
+      paymentStatus: PaymentStatus.UNPAID,
+    });
+  });
+
+  it('marks the order failed when only failed charges exist', () => {
+    const summary = summarizeLedger(100000, [
+      charge(100000, PaymentTransactionStatus.FAILED),
+    ]);
+
+    expect(summary.paid).toBe(0);
+    expect(summary.outstanding).toBe(100000);
+    expect(summary.paymentStatus).toBe(PaymentStatus.FAILED);
+  });
+
+  it('adds up partial payments until the total is covered', () => {
+    const partial = summarizeLedger(100000, [charge(40000)]);
+    expect(partial.outstanding).toBe(60000);
+    expect(partial.paymentStatus).toBe(PaymentStatus.PARTIALLY_PAID);
+
+    const full = summarizeLedger(100000, [charge(40000), charge(60000)]);
+    expect(full.paid).toBe(100000);
+    expect(full.outstanding).toBe(0);
+    expect(full.paymentStatus).toBe(PaymentStatus.PAID);
+  });
+
+  it('ignores a failed charge once something was paid', () => {
+    const summary = summarizeLedger(100000, [
+      charge(100000, PaymentTransactionStatus.FAILED),
+      charge(100000),
+    ]);
+
+    expect(summary.charged).toBe(100000);
+    expect(summary.paymentStatus).toBe(PaymentStatus.PAID);
+  });
+
+  it('subtracts refunds from the paid amount', () => {
+    const partial = summarizeLedger(100000, [charge(100000), refund(30000)]);
+    expect(partial.paid).toBe(70000);
+    expect(partial.outstanding).toBe(30000);
+    expect(partial.paymentStatus).toBe(PaymentStatus.PARTIALLY_REFUNDED);
+
+    const full = summarizeLedger(100000, [charge(100000), refund(100000)]);
+    expect(full.paid).toBe(0);
+    expect(full.paymentStatus).toBe(PaymentStatus.REFUNDED);
+  });
+
+  it('rounds sums to whole tiyin', () => {
+    const summary = summarizeLedger(0.3, [charge(0.1), charge(0.2)]);
+
+    expect(summary.paid).toBe(0.3);
+    expect(summary.outstanding).toBe(0);
+    expect(summary.paymentStatus).toBe(PaymentStatus.PAID);
+  });
+
+  it('never reports a negative outstanding amount', () => {
+    const summary = summarizeLedger(100000, [charge(120000)]);
+
+    expect(summary.outstanding).toBe(0);
+    expect(summary.paymentStatus).toBe(PaymentStatus.PAID);
+  });
+});
@@ -0,0 +1,166 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  PaymentStatus,
+  PaymentTransaction,
+  PaymentTransactionStatus,
+  PaymentTransactionType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { roundMoney } from '../pricing/pricing.service';
+
+type LedgerEntry = Pick<PaymentTransaction, 'type' | 'status' | 'amount'>;
+
+export interface PaymentSummary {
+  // To'lanadigan summa: Order.totalPrice + shippingFee
+  totalPrice: number;
+  charged: number;
+  refunded: number;
+  // To'langan summa (qaytarilganlar ayirilgan)
+  paid: number;
+  outstanding: number;
+  paymentStatus: PaymentStatus;
+}
+
+/**
+ * Calculates an order's payment totals from its ledger entries.
+ * Only succeeded entries move money; failed charges only matter while
+ * nothing has been paid yet.
+ */
+export function summarizeLedger(
+  totalPrice: number,
+  entries: LedgerEntry[],
+): PaymentSummary {
+  const sum = (type: PaymentTransactionType) =>
+    roundMoney(
+      entries
+        .filter(
+          (entry) =>
+            entry.type === type &&
+            entry.status === PaymentTransactionStatus.SUCCEEDED,
+        )
+        .reduce((total, entry) => total + entry.amount, 0),
+    );
+
+  const charged = sum(PaymentTransactionType.CHARGE);
+  const refunded = sum(PaymentTransactionType.REFUND);
+  const paid = roundMoney(charged - refunded);
+  const hasFailedCharge = entries.some(
+    (entry) =>
+      entry.type === PaymentTransactionType.CHARGE &&
+      entry.status === PaymentTransactionStatus.FAILED,
+  );
+
+  let paymentStatus: PaymentStatus;
+  if (charged <= 0) {
+    paymentStatus = hasFailedCharge
+      ? PaymentStatus.FAILED
+      : PaymentStatus.UNPAID;
+  } else if (refunded > 0) {
+    paymentStatus =
+      paid <= 0 ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED;
+  } else {
+    paymentStatus =
+      paid >= roundMoney(totalPrice)
+        ? PaymentStatus.PAID
+        : PaymentStatus.PARTIALLY_PAID;
+  }
+
+  return {
+    totalPrice,
+    charged,
+    refunded,
+    paid,
+    outstanding: Math.max(0, roundMoney(totalPrice - paid)),
+    paymentStatus,
+  };
+}
+
+async function loadSummary(
+  client: Prisma.TransactionClient,
+  orderId: number,
+): Promise<PaymentSummary> {
+  const order = await client.order.findUnique({
+    where: { id: orderId },
+    select: {
+      totalPrice: true,
+      shippingFee: true,
+      transactions: { select: { type: true, status: true, amount: true } },
+    },
+  });
+
+  if (!order) {
+    throw new NotFoundException(`Order with ID ${orderId} not found`);
+  }
+
+  return summarizeLedger(
+    roundMoney(order.totalPrice + order.shippingFee),
+    order.transactions,
+  );
+}
+
+/**
+ * Recalculates an order's paymentStatus from its ledger. Also used by
+ * OrderService when an order total changes.
+ * @param client The transaction client
+ * @param orderId The order ID
+ */
+export async function syncOrderPaymentStatus(
+  client: Prisma.TransactionClient,
+  orderId: number,
+): Promise<PaymentSummary> {
+  const summary = await loadSummary(client, orderId);
+
+  await client.order.updateMany({
+    where: { id: orderId, paymentStatus: { not: summary.paymentStatus } },
+    data: { paymentStatus: summary.paymentStatus },
+  });
+
+  return summary;
+}
+
+@Injectable()
+export class PaymentLedgerService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Appends a ledger entry and updates the order's derived paymentStatus
+   * @param tx The transaction client
+   * @param data The ledger entry
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    data: Prisma.PaymentTransactionUncheckedCreateInput,
+  ): Promise<PaymentTransaction> {
+    const transaction = await tx.paymentTransaction.create({ data });
+    await syncOrderPaymentStatus(tx, data.orderId);
+    return transaction;
+  }
+
+  getSummary(
+    orderId: number,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<PaymentSummary> {
+    return loadSummary(client, orderId);
+  }
+
+  async getOrderLedger(orderId: number) {
+    const summary = await this.getSummary(orderId);
+
+    const transactions = await this.prisma.paymentTransaction.findMany({
+      where: { orderId },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            fullName: true,
+            role: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { orderId, summary, transactions };
+  }
+}
@@ -0,0 +1,144 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  OrderStatus,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentTransactionStatus,
+  PaymentTransactionType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { roundMoney } from '../pricing/pricing.service';
+import { isPrepaid } from '../order/payment-method';
+import { summarizeLedger } from './payment-ledger.service';
+import { PaymentReportQueryDto } from './dto/payment-report-query.dto';
+
+export interface RevenueTotals {
+  charged: number;
+  refunded: number;
+  // Qaytarilganlar ayirilgan tushum
+  revenue: number;
+  orders: number;
+}
+
+export interface ReceivableTotals {
+  amount: number;
+  orders: number;
+}
+
+// Naqd pul hali olinmagan COD buyurtmalari shu to'lov holatlarida bo'ladi
+const RECEIVABLE_STATUSES: PaymentStatus[] = [
+  PaymentStatus.UNPAID,
+  PaymentStatus.PARTIALLY_PAID,
+];
+
+function emptyRevenue(): RevenueTotals {
+  return { charged: 0, refunded: 0, revenue: 0, orders: 0 };
+}
+
+@Injectable()
+export class PaymentReportService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Splits money movements for a period into prepaid revenue (card, Payme,
+   * Click) and cash collected on delivery, and lists what couriers still
+   * have to collect on open COD orders.
+   * @param query Optional period bounds for the ledger entries
+   */
+  async getSummary(query: PaymentReportQueryDto) {
+    const from = query.from ? new Date(query.from) : undefined;
+    const to = query.to ? new Date(query.to) : undefined;
+
+    if (from && to && from >= to) {
+      throw new BadRequestException('"from" must be earlier than "to"');
+    }
+
+    const createdAt: Prisma.DateTimeFilter = {};
+    if (from) createdAt.gte = from;
+    if (to) createdAt.lt = to;
+
+    const transactions = await this.prisma.paymentTransaction.findMany({
+      where: {
+        status: PaymentTransactionStatus.SUCCEEDED,
+        ...(from || to ? { createdAt } : {}),
+      },
+      select: {
+        orderId: true,
+        type: true,
+        amount: true,
+        order: { select: { paymentMethod: true } },
+      },
+    });
+
+    const prepaid = emptyRevenue();
+    const cod = emptyRevenue();
+    const prepaidOrders = new Set<number>();
+    const codOrders = new Set<number>();
+
+    for (const transaction of transactions) {
+      const prepaidOrder = isPrepaid(transaction.order.paymentMethod);
+      const totals = prepaidOrder ? prepaid : cod;
+
+      if (transaction.type === PaymentTransactionType.CHARGE) {
+        totals.charged += transaction.amount;
+      } else {
+        totals.refunded += transaction.amount;
+      }
+      (prepaidOrder ? prepaidOrders : codOrders).add(transaction.orderId);
+    }
+
+    for (const [totals, orders] of [
+      [prepaid, prepaidOrders],
+      [cod, codOrders],
+    ] as const) {
+      totals.charged = roundMoney(totals.charged);
+      totals.refunded = roundMoney(totals.refunded);
+      totals.revenue = roundMoney(totals.charged - totals.refunded);
+      totals.orders = orders.size;
+    }
+
+    return {
+      period: { from: from ?? null, to: to ?? null },
+      prepaid,
+      cashOnDelivery: cod,
+      codReceivables: await this.getCodReceivables(),
+    };
+  }
+
+  // Qarzdorlik davrga bog'liq emas: hozirgi holat bo'yicha hisoblanadi
+  private async getCodReceivables() {
+    const orders = await this.prisma.order.findMany({
+      where: {
+        paymentMethod: PaymentMethod.COD,
+        status: { not: OrderStatus.CANCELLED },
+        paymentStatus: { in: RECEIVABLE_STATUSES },
+      },
+      select: {
+        status: true,
+        totalPrice: true,
+        shippingFee: true,
+        transactions: { select: { type: true, status: true, amount: true } },
+      },
+    });
+
+    const total: ReceivableTotals = { amount: 0, orders: 0 };
+    const byStatus: Partial<Record<OrderStatus, ReceivableTotals>> = {};
+
+    for (const order of orders) {
+      const { outstanding } = summarizeLedger(
+        roundMoney(order.totalPrice + order.shippingFee),
+        order.transactions,
+      );
+      if (outstanding <= 0) continue;
+
+      const group = (byStatus[order.status] ??= { amount: 0, orders: 0 });
+      group.amount = roundMoney(group.amount + outstanding);
+      group.orders += 1;
+      total.amount = roundMoney(total.amount + outstanding);
+      total.orders += 1;
+    }
+
+    return { ...total, byStatus };
+  }
+}
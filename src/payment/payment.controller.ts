@@ -0,0 +1,138 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { PaymentService } from './payment.service';
+import { PaymentReportService } from './payment-report.service';
+import { CreatePaymentSessionDto } from './dto/create-payment-session.dto';
+import { CompleteMockPaymentDto } from './dto/complete-mock-payment.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { CollectCashDto } from './dto/collect-cash.dto';
+import { PaymentReportQueryDto } from './dto/payment-report-query.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { isAdmin } from '../common/security/admin-roles';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+
+@ApiTags('Payments')
+@Controller('payments')
+export class PaymentController {
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly reportService: PaymentReportService,
+  ) {}
+
+  @Post('orders/:orderId/sessions')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  createSession(
+    @Param('orderId', ParseIntPipe) orderId: number,
+    @Body() dto: CreatePaymentSessionDto,
+    @Request() req,
+  ) {
+    return this.paymentService.createSession(orderId, req.user.id, dto);
+  }
+
+  @Get('orders/:orderId/sessions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  async findOrderSessions(
+    @Param('orderId', ParseIntPipe) orderId: number,
+    @Request() req,
+  ) {
+    const result = await this.paymentService.findOrderSessions(orderId);
+
+    // Non-admin users can only see payments of their own orders
+    if (!isAdmin(req.user.role) && result.order.userId !== req.user.id) {
+      throw new ForbiddenException('You can only access your own orders');
+    }
+
+    return result;
+  }
+
+  @Get('orders/:orderId/transactions')
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  findOrderTransactions(@Param('orderId', ParseIntPipe) orderId: number) {
+    return this.paymentService.findOrderTransactions(orderId);
+  }
+
+  @Post('orders/:orderId/refunds')
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  refund(
+    @Param('orderId', ParseIntPipe) orderId: number,
+    @Body() dto: CreateRefundDto,
+    @Request() req,
+  ) {
+    return this.paymentService.refund(orderId, dto, req.user.id);
+  }
+
+  // Yetkazib berishda naqd pul olinganini tasdiqlash (COD); kuryer faqat o'z jo'natmasi uchun
+  @Post('orders/:orderId/cash-collected')
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN, Role.COURIER)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  collectCash(
+    @Param('orderId', ParseIntPipe) orderId: number,
+    @Body() dto: CollectCashDto,
+    @Request() req,
+  ) {
+    return this.paymentService.collectCash(
+      orderId,
+      dto,
+      req.user.id,
+      req.user.role === Role.COURIER ? req.user.id : undefined,
+    );
+  }
+
+  @Get('reports/summary')
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  getReport(@Query() query: PaymentReportQueryDto) {
+    return this.reportService.getSummary(query);
+  }
+
+  // Faqat PAYMENT_MOCK_ENABLED=true bo'lganda ishlaydi (test va development)
+  @Post('mock/sessions/:id/complete')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  completeMockSession(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CompleteMockPaymentDto,
+    @Request() req,
+  ) {
+    return this.paymentService.completeMockSession(
+      id,
+      req.user.id,
+      dto.success,
+    );
+  }
+}
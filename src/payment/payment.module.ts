@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { SecurityModule } from '../common/security/security.module';
+import { OrderModule } from '../order/order.module';
+import { PaymentService } from './payment.service';
+import { PaymentCheckoutService } from './payment-checkout.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { PaymentReportService } from './payment-report.service';
+import { PaymentController } from './payment.controller';
+import { PaymeService } from './payme/payme.service';
+import { PaymeController } from './payme/payme.controller';
+import { ClickService } from './click/click.service';
+import { ClickController } from './click/click.controller';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    ConfigModule,
+    AuthModule,
+    SecurityModule,
+    OrderModule,
+    IdempotencyModule,
+  ],
+  controllers: [PaymentController, PaymeController, ClickController],
+  providers: [
+    PaymentService,
+    PaymentCheckoutService,
+    PaymentLedgerService,
+    PaymentReportService,
+    PaymeService,
+    ClickService,
+  ],
+  exports: [PaymentService],
+})
+export class PaymentModule {}
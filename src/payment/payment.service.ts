@@ -0,0 +1,576 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Order,
+  OrderStatus,
+  PaymentMethod,
+  PaymentProvider,
+  PaymentSession,
+  PaymentSessionStatus,
+  PaymentStatus,
+  PaymentTransactionStatus,
+  PaymentTransactionType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { OrderService } from '../order/order.service';
+import { roundMoney } from '../pricing/pricing.service';
+import { isPrepaid } from '../order/payment-method';
+import { PaymentCheckoutService } from './payment-checkout.service';
+import { PaymentLedgerService } from './payment-ledger.service';
+import { CreatePaymentSessionDto } from './dto/create-payment-session.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { CollectCashDto } from './dto/collect-cash.dto';
+
+// Hali to'lov qabul qilinadigan holatlar
+const PAYABLE_STATUSES: PaymentStatus[] = [
+  PaymentStatus.UNPAID,
+  PaymentStatus.FAILED,
+  PaymentStatus.PARTIALLY_PAID,
+];
+
+// Provayder orqali qaytarish faqat ishlab chiqarish boshlanmaguncha mumkin
+const PROVIDER_REFUNDABLE_STATUSES: OrderStatus[] = [
+  OrderStatus.PENDING,
+  OrderStatus.PAID,
+];
+
+// Kuryer naqd pulni faqat jo'natilgan yoki yetkazilgan buyurtma uchun oladi
+const CASH_COLLECTABLE_STATUSES: OrderStatus[] = [
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+];
+
+// Tanlangan to'lov usuli bilan qaysi provayderlar orqali to'lash mumkin
+const METHOD_PROVIDERS: Record<PaymentMethod, PaymentProvider[]> = {
+  [PaymentMethod.COD]: [],
+  [PaymentMethod.CARD]: [PaymentProvider.PAYME, PaymentProvider.CLICK],
+  [PaymentMethod.PAYME]: [PaymentProvider.PAYME],
+  [PaymentMethod.CLICK]: [PaymentProvider.CLICK],
+};
+
+@Injectable()
+export class PaymentService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private orderService: OrderService,
+    private checkoutService: PaymentCheckoutService,
+    private ledgerService: PaymentLedgerService,
+  ) {}
+
+  /**
+   * Starts a payment for the customer's order and returns the provider
+   * checkout URL. The session covers the outstanding balance, and an unused
+   * session of the same provider and amount is reused.
+   * @param orderId The order ID
+   * @param userId The customer paying, who must own the order
+   * @param dto The chosen provider
+   */
+  async createSession(
+    orderId: number,
+    userId: number,
+    dto: CreatePaymentSessionDto,
+  ) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    }
+
+    if (order.userId !== userId) {
+      throw new ForbiddenException('You can only pay for your own orders');
+    }
+
+    if (!isPrepaid(order.paymentMethod)) {
+      throw new BadRequestException(
+        `Order #${orderId} is paid in cash on delivery`,
+      );
+    }
+
+    if (!this.isPayable(order)) {
+      throw new BadRequestException(
+        `Order #${orderId} cannot be paid (status ${order.status}, payment ${order.paymentStatus})`,
+      );
+    }
+
+    if (await this.findProcessingSession(orderId)) {
+      throw new ConflictException(
+        `A payment for order #${orderId} is already in progress`,
+      );
+    }
+
+    if (dto.provider === PaymentProvider.MOCK && !this.isMockEnabled()) {
+      throw new BadRequestException('Mock payments are disabled');
+    }
+
+    if (!this.getAllowedProviders(order.paymentMethod).includes(dto.provider)) {
+      throw new BadRequestException(
+        `Order #${orderId} is set to ${order.paymentMethod} and cannot be paid via ${dto.provider}`,
+      );
+    }
+
+    const amount = await this.getOutstandingAmount(orderId);
+
+    const existing = await this.prisma.paymentSession.findFirst({
+      where: {
+        orderId,
+        provider: dto.provider,
+        status: PaymentSessionStatus.PENDING,
+        amount,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const session =
+      existing ??
+      (await this.prisma.paymentSession.create({
+        data: { orderId, provider: dto.provider, amount },
+      }));
+
+    return {
+      ...session,
+      checkoutUrl: this.checkoutService.getCheckoutUrl(session),
+    };
+  }
+
+  async findOrderSessions(orderId: number) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { id: true, userId: true, paymentStatus: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    }
+
+    const sessions = await this.prisma.paymentSession.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return { order, sessions };
+  }
+
+  findOrderTransactions(orderId: number) {
+    return this.ledgerService.getOrderLedger(orderId);
+  }
+
+  /**
+   * Amount still to be paid for an order, according to its ledger
+   * @param orderId The order ID
+   */
+  async getOutstandingAmount(orderId: number): Promise<number> {
+    const { outstanding } = await this.ledgerService.getSummary(orderId);
+    return outstanding;
+  }
+
+  /**
+   * Finds a session of any provider that is being paid right now. No other
+   * payment may start for the order until it is paid or cancelled.
+   * @param orderId The order ID
+   * @param exceptSessionId A session to leave out, usually the caller's own
+   */
+  findProcessingSession(orderId: number, exceptSessionId?: number) {
+    return this.prisma.paymentSession.findFirst({
+      where: {
+        orderId,
+        status: PaymentSessionStatus.PROCESSING,
+        ...(exceptSessionId !== undefined && {
+          id: { not: exceptSessionId },
+        }),
+      },
+    });
+  }
+
+  /**
+   * Settles a session: records the charge in the ledger and, once the order
+   * is fully paid, moves it from PENDING to PAID.
+   * Safe to call again for an already paid session. Fails without recording
+   * anything if the session amount exceeds what is still owed.
+   * @param sessionId The payment session ID
+   */
+  async markPaid(sessionId: number): Promise<PaymentSession> {
+    return this.prisma.$transaction(async (tx) => {
+      const session = await tx.paymentSession.findUniqueOrThrow({
+        where: { id: sessionId },
+      });
+      if (session.status === PaymentSessionStatus.PAID) {
+        return session;
+      }
+
+      // Buyurtma qatori bloklanadi: turli sessiyalar qoldiqni navbat bilan tekshiradi
+      await tx.order.update({
+        where: { id: session.orderId },
+        data: { updatedAt: new Date() },
+      });
+      const { outstanding } = await this.ledgerService.getSummary(
+        session.orderId,
+        tx,
+      );
+      if (roundMoney(session.amount) > outstanding) {
+        throw new ConflictException(
+          `Payment #${sessionId} of ${session.amount} exceeds the outstanding amount ${outstanding} of order #${session.orderId}`,
+        );
+      }
+
+      // Parallel callback kelsa, faqat bittasi sessiyani yopadi
+      const { count } = await tx.paymentSession.updateMany({
+        where: { id: sessionId, status: session.status },
+        data: { status: PaymentSessionStatus.PAID, paidAt: new Date() },
+      });
+      if (count === 0) {
+        return tx.paymentSession.findUniqueOrThrow({
+          where: { id: sessionId },
+        });
+      }
+
+      await this.ledgerService.record(tx, {
+        orderId: session.orderId,
+        sessionId,
+        type: PaymentTransactionType.CHARGE,
+        status: PaymentTransactionStatus.SUCCEEDED,
+        amount: session.amount,
+        provider: session.provider,
+        externalId: session.externalId,
+      });
+
+      const order = await tx.order.findUniqueOrThrow({
+        where: { id: session.orderId },
+        select: { status: true, paymentStatus: true },
+      });
+
+      if (
+        order.status === OrderStatus.PENDING &&
+        order.paymentStatus === PaymentStatus.PAID
+      ) {
+        await this.orderService.transitionStatus(
+          tx,
+          session.orderId,
+          OrderStatus.PAID,
+          null,
+          `Paid via ${session.provider}`,
+        );
+      }
+
+      return tx.paymentSession.findUniqueOrThrow({
+        where: { id: sessionId },
+      });
+    });
+  }
+
+  /**
+   * Closes an unpaid session and records the failed charge. The order
+   * becomes FAILED unless something was already paid.
+   * @param sessionId The payment session ID
+   * @param reason Provider specific cancel reason code
+   */
+  async markCancelled(
+    sessionId: number,
+    reason?: number,
+  ): Promise<PaymentSession> {
+    return this.prisma.$transaction(async (tx) => {
+      const session = await tx.paymentSession.findUniqueOrThrow({
+        where: { id: sessionId },
+      });
+      if (
+        session.status === PaymentSessionStatus.CANCELLED ||
+        session.status === PaymentSessionStatus.PAID
+      ) {
+        return session;
+      }
+
+      const updated = await tx.paymentSession.update({
+        where: { id: sessionId },
+        data: {
+          status: PaymentSessionStatus.CANCELLED,
+          cancelledAt: new Date(),
+          cancelReason: reason ?? null,
+        },
+      });
+
+      await this.ledgerService.record(tx, {
+        orderId: session.orderId,
+        sessionId,
+        type: PaymentTransactionType.CHARGE,
+        status: PaymentTransactionStatus.FAILED,
+        amount: session.amount,
+        provider: session.provider,
+        externalId: session.externalId,
+        reason: reason !== undefined ? `Cancel reason ${reason}` : null,
+      });
+
+      return updated;
+    });
+  }
+
+  /**
+   * Reverses a paid session when the provider cancels it (e.g. Payme
+   * CancelTransaction after PerformTransaction), records the refund and
+   * cancels the order so it does not go into production unpaid
+   * @param sessionId The payment session ID
+   * @param reason Provider specific cancel reason code
+   */
+  async refundSession(
+    sessionId: number,
+    reason?: number,
+  ): Promise<PaymentSession> {
+    return this.prisma.$transaction(async (tx) => {
+      const session = await tx.paymentSession.findUniqueOrThrow({
+        where: { id: sessionId },
+      });
+      if (session.status !== PaymentSessionStatus.PAID) {
+        return session;
+      }
+
+      const updated = await tx.paymentSession.update({
+        where: { id: sessionId },
+        data: {
+          status: PaymentSessionStatus.CANCELLED,
+          cancelledAt: new Date(),
+          cancelReason: reason ?? null,
+        },
+      });
+
+      await this.ledgerService.record(tx, {
+        orderId: session.orderId,
+        sessionId,
+        type: PaymentTransactionType.REFUND,
+        status: PaymentTransactionStatus.SUCCEEDED,
+        amount: session.amount,
+        provider: session.provider,
+        externalId: session.externalId,
+        reason: reason !== undefined ? `Cancel reason ${reason}` : null,
+      });
+
+      await this.orderService.transitionStatus(
+        tx,
+        session.orderId,
+        OrderStatus.CANCELLED,
+        null,
+        `Payment cancelled via ${session.provider}`,
+      );
+
+      return updated;
+    });
+  }
+
+  /**
+   * Records a full or partial refund issued by an admin
+   * @param orderId The order ID
+   * @param dto Amount (defaults to everything paid) and reason
+   * @param actorId The admin issuing the refund
+   */
+  async refund(orderId: number, dto: CreateRefundDto, actorId: number) {
+    await this.prisma.$transaction(async (tx) => {
+      const summary = await this.ledgerService.getSummary(orderId, tx);
+      if (summary.paid <= 0) {
+        throw new BadRequestException(
+          `Order #${orderId} has no payments to refund`,
+        );
+      }
+
+      const amount = roundMoney(dto.amount ?? summary.paid);
+      if (amount > summary.paid) {
+        throw new BadRequestException(
+          `Refund amount ${amount} exceeds the paid amount ${summary.paid}`,
+        );
+      }
+
+      // Qaytarish oxirgi muvaffaqiyatli to'lov provayderi orqali hisoblanadi
+      const lastCharge = await tx.paymentTransaction.findFirst({
+        where: {
+          orderId,
+          type: PaymentTransactionType.CHARGE,
+          status: PaymentTransactionStatus.SUCCEEDED,
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      await this.ledgerService.record(tx, {
+        orderId,
+        type: PaymentTransactionType.REFUND,
+        status: PaymentTransactionStatus.SUCCEEDED,
+        amount,
+        provider: lastCharge?.provider ?? null,
+        externalId: dto.externalId ?? null,
+        reason: dto.reason ?? null,
+        actorId,
+      });
+    });
+
+    return this.ledgerService.getOrderLedger(orderId);
+  }
+
+  /**
+   * Records cash handed over to the courier for a cash-on-delivery order.
+   * The charge covers the outstanding balance unless a smaller amount is
+   * given, and a shipped order is marked DELIVERED.
+   * @param orderId The order ID
+   * @param dto Amount collected and an optional note
+   * @param actorId The courier or admin confirming the collection
+   * @param courierId Set when a courier confirms; the order must be shipped with them
+   */
+  async collectCash(
+    orderId: number,
+    dto: CollectCashDto,
+    actorId: number,
+    courierId?: number,
+  ) {
+    await this.prisma.$transaction(async (tx) => {
+      const order = await tx.order.findUnique({
+        where: { id: orderId },
+        select: {
+          status: true,
+          paymentMethod: true,
+          shipment: { select: { courierId: true } },
+        },
+      });
+
+      if (!order) {
+        throw new NotFoundException(`Order with ID ${orderId} not found`);
+      }
+
+      if (courierId !== undefined && order.shipment?.courierId !== courierId) {
+        throw new ForbiddenException(
+          `Order #${orderId} is not assigned to you for delivery`,
+        );
+      }
+
+      if (isPrepaid(order.paymentMethod)) {
+        throw new BadRequestException(
+          `Order #${orderId} is prepaid via ${order.paymentMethod}, not cash on delivery`,
+        );
+      }
+
+      if (!CASH_COLLECTABLE_STATUSES.includes(order.status)) {
+        throw new BadRequestException(
+          `Cash can only be collected for shipped or delivered orders (order #${orderId} is ${order.status})`,
+        );
+      }
+
+      const { outstanding } = await this.ledgerService.getSummary(orderId, tx);
+      if (outstanding <= 0) {
+        throw new BadRequestException(`Order #${orderId} is already paid`);
+      }
+
+      const amount = roundMoney(dto.amount ?? outstanding);
+      if (amount > outstanding) {
+        throw new BadRequestException(
+          `Collected amount ${amount} exceeds the outstanding amount ${outstanding}`,
+        );
+      }
+
+      await this.ledgerService.record(tx, {
+        orderId,
+        type: PaymentTransactionType.CHARGE,
+        status: PaymentTransactionStatus.SUCCEEDED,
+        amount,
+        reason: dto.note ?? 'Cash collected on delivery',
+        actorId,
+      });
+
+      if (order.status === OrderStatus.SHIPPED) {
+        await this.orderService.transitionStatus(
+          tx,
+          orderId,
+          OrderStatus.DELIVERED,
+          actorId,
+          'Delivered, cash collected',
+        );
+      }
+    });
+
+    return this.ledgerService.getOrderLedger(orderId);
+  }
+
+  /**
+   * Finishes a mock session, standing in for a provider callback in
+   * development and tests
+   * @param sessionId The payment session ID
+   * @param userId The customer paying, who must own the order
+   * @param success Whether the simulated payment succeeds
+   */
+  async completeMockSession(sessionId: number, userId: number, success = true) {
+    if (!this.isMockEnabled()) {
+      throw new NotFoundException('Mock payments are disabled');
+    }
+
+    const session = await this.prisma.paymentSession.findUnique({
+      where: { id: sessionId },
+      include: { order: true },
+    });
+
+    if (!session || session.provider !== PaymentProvider.MOCK) {
+      throw new NotFoundException(`Mock payment #${sessionId} not found`);
+    }
+
+    if (session.order.userId !== userId) {
+      throw new ForbiddenException('You can only pay for your own orders');
+    }
+
+    if (session.status === PaymentSessionStatus.CANCELLED) {
+      throw new BadRequestException(`Payment #${sessionId} was cancelled`);
+    }
+
+    if (!success) {
+      return this.markCancelled(sessionId);
+    }
+
+    if (
+      session.status !== PaymentSessionStatus.PAID &&
+      !this.isPayable(session.order)
+    ) {
+      throw new BadRequestException(
+        `Order #${session.orderId} can no longer be paid`,
+      );
+    }
+
+    if (await this.findProcessingSession(session.orderId, sessionId)) {
+      throw new ConflictException(
+        `A payment for order #${session.orderId} is already in progress`,
+      );
+    }
+
+    return this.markPaid(sessionId);
+  }
+
+  // Onlayn to'lov faqat oldindan to'lanadigan, kutilayotgan va to'liq
+  // to'lanmagan buyurtmalar uchun; COD naqd pul bilan yopiladi
+  isPayable(
+    order: Pick<Order, 'status' | 'paymentStatus' | 'paymentMethod'>,
+  ): boolean {
+    return (
+      isPrepaid(order.paymentMethod) &&
+      order.status === OrderStatus.PENDING &&
+      PAYABLE_STATUSES.includes(order.paymentStatus)
+    );
+  }
+
+  canProviderRefund(order: Pick<Order, 'status'>): boolean {
+    return PROVIDER_REFUNDABLE_STATUSES.includes(order.status);
+  }
+
+  // MOCK faqat yoqilganda va oldindan to'lanadigan buyurtmaga qo'shiladi
+  private getAllowedProviders(method: PaymentMethod): PaymentProvider[] {
+    const providers = METHOD_PROVIDERS[method];
+    return this.isMockEnabled() && isPrepaid(method)
+      ? [...providers, PaymentProvider.MOCK]
+      : providers;
+  }
+
+  // Production muhitida flag yoqilgan bo'lsa ham mock to'lov ishlamaydi
+  private isMockEnabled(): boolean {
+    return (
+      this.configService.get<string>('NODE_ENV') !== 'production' &&
+      this.configService.get<string>('PAYMENT_MOCK_ENABLED') === 'true'
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Category, SurchargeKind } from '@prisma/client';
+
+export class CreateSurchargeRuleDto {
+  @ApiProperty({ example: 'Large print area' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    enum: SurchargeKind,
+    description:
+      'PER_SIDE: each printed side. BOTH_SIDES: front and back printed. ' +
+      'ELEMENT_COUNT / COVERAGE: a side reaching the threshold',
+    example: SurchargeKind.COVERAGE,
+  })
+  @IsEnum(SurchargeKind)
+  kind: SurchargeKind;
+
+  @ApiPropertyOptional({
+    description:
+      'Required for ELEMENT_COUNT (number of elements) and COVERAGE ' +
+      '(percent of the print area)',
+    example: 50,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  threshold?: number;
+
+  @ApiProperty({ description: 'Added to the unit price', example: 15000 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  amount: number;
+
+  @ApiPropertyOptional({
+    enum: Category,
+    description: 'Only products in this category. Empty means every product',
+  })
+  @IsOptional()
+  @IsEnum(Category)
+  category?: Category;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
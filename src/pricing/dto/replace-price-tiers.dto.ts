@@ -0,0 +1,55 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class PriceTierDto {
+  @ApiProperty({
+    description:
+      'Quantity from which the tier applies (1 is the regular price)',
+    example: 10,
+  })
+  @IsInt()
+  @Min(2)
+  minQuantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Fixed unit price for this tier',
+    example: 85000,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  unitPrice?: number;
+
+  @ApiPropertyOptional({
+    description: 'Discount from Variant.price in percent, instead of unitPrice',
+    example: 15,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  @Max(99)
+  discountPercent?: number;
+}
+
+export class ReplacePriceTiersDto {
+  @ApiProperty({
+    type: [PriceTierDto],
+    description: 'The complete tier list; an empty list removes all tiers',
+  })
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => PriceTierDto)
+  tiers: PriceTierDto[];
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateSurchargeRuleDto } from './create-surcharge-rule.dto';
+
+export class UpdateSurchargeRuleDto extends PartialType(
+  CreateSurchargeRuleDto,
+) {}
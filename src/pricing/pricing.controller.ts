@@ -0,0 +1,63 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { SurchargeRuleService } from './surcharge-rule.service';
+import { CreateSurchargeRuleDto } from './dto/create-surcharge-rule.dto';
+import { UpdateSurchargeRuleDto } from './dto/update-surcharge-rule.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+
+@ApiTags('Pricing')
+@ApiBearerAuth()
+@Roles(Role.ADMIN, Role.SUPER_ADMIN)
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('pricing')
+export class PricingController {
+  constructor(private readonly surchargeRuleService: SurchargeRuleService) {}
+
+  @Post('surcharge-rules')
+  @HttpCode(HttpStatus.CREATED)
+  createSurchargeRule(@Body() dto: CreateSurchargeRuleDto) {
+    return this.surchargeRuleService.create(dto);
+  }
+
+  @Get('surcharge-rules')
+  @HttpCode(HttpStatus.OK)
+  findSurchargeRules() {
+    return this.surchargeRuleService.findAll();
+  }
+
+  @Get('surcharge-rules/:id')
+  @HttpCode(HttpStatus.OK)
+  findSurchargeRule(@Param('id', ParseIntPipe) id: number) {
+    return this.surchargeRuleService.findOne(id);
+  }
+
+  @Patch('surcharge-rules/:id')
+  @HttpCode(HttpStatus.OK)
+  updateSurchargeRule(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateSurchargeRuleDto,
+  ) {
+    return this.surchargeRuleService.update(id, dto);
+  }
+
+  @Delete('surcharge-rules/:id')
+  @HttpCode(HttpStatus.OK)
+  removeSurchargeRule(@Param('id', ParseIntPipe) id: number) {
+    return this.surchargeRuleService.remove(id);
+  }
+}
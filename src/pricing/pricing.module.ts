@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PricingService } from './pricing.service';
+import { SurchargeRuleService } from './surcharge-rule.service';
+import { PricingController } from './pricing.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [PrismaModule, ConfigModule, AuthModule],
+  controllers: [PricingController],
+  providers: [PricingService, SurchargeRuleService],
+  exports: [PricingService],
+})
+export class PricingModule {}
@@ -0,0 +1,222 @@
+import { Category, SurchargeKind } from '@prisma/client';
+import {
+  buildTierTable,
+  calculateSurcharges,
+  findTier,
+  roundMoney,
+  tierUnitPrice,
+} from './pricing.service';
+
+const tier = (
+  minQuantity: number,
+  price: { unitPrice?: number; discountPercent?: number },
+) => ({
+  minQuantity,
+  unitPrice: price.unitPrice ?? null,
+  discountPercent: price.discountPercent ?? null,
+});
+
+describe('roundMoney', () => {
+  it('rounds to two decimals', () => {
+    expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+    expect(roundMoney(1.234)).toBe(1.23);
+  });
+});
+
+describe('findTier', () => {
+  const tiers = [
+    tier(10, { discountPercent: 5 }),
+    tier(50, { discountPercent: 10 }),
+    tier(100, { unitPrice: 70000 }),
+  ];
+
+  it('returns nothing below the first tier', () => {
+    expect(findTier(tiers, 9)).toBeUndefined();
+  });
+
+  it('returns the highest tier the quantity reaches', () => {
+    expect(findTier(tiers, 10)).toBe(tiers[0]);
+    expect(findTier(tiers, 49)).toBe(tiers[0]);
+    expect(findTier(tiers, 50)).toBe(tiers[1]);
+    expect(findTier(tiers, 500)).toBe(tiers[2]);
+  });
+
+  it('does not reorder the given tiers', () => {
+    findTier(tiers, 60);
+    expect(tiers.map((t) => t.minQuantity)).toEqual([10, 50, 100]);
+  });
+});
+
+describe('tierUnitPrice', () => {
+  it('uses the regular price without a tier', () => {
+    expect(tierUnitPrice(99999.999)).toBe(100000);
+  });
+
+  it('prefers a fixed tier price', () => {
+    expect(tierUnitPrice(100000, tier(10, { unitPrice: 85000 }))).toBe(85000);
+  });
+
+  it('applies a percentage discount to the regular price', () => {
+    expect(tierUnitPrice(100000, tier(10, { discountPercent: 12.5 }))).toBe(
+      87500,
+    );
+  });
+});
+
+describe('buildTierTable', () => {
+  it('starts with the regular price and closes every range', () => {
+    expect(
+      buildTierTable(100000, [
+        tier(10, { discountPercent: 10 }),
+        tier(50, { unitPrice: 80000 }),
+      ]),
+    ).toEqual([
+      { minQuantity: 1, maxQuantity: 9, unitPrice: 100000, savingsPercent: 0 },
+      {
+        minQuantity: 10,
+        maxQuantity: 49,
+        unitPrice: 90000,
+        savingsPercent: 10,
+      },
+      {
+        minQuantity: 50,
+        maxQuantity: null,
+        unitPrice: 80000,
+        savingsPercent: 20,
+      },
+    ]);
+  });
+
+  it('has a single open row without tiers', () => {
+    expect(buildTierTable(100000, [])).toEqual([
+      {
+        minQuantity: 1,
+        maxQuantity: null,
+        unitPrice: 100000,
+        savingsPercent: 0,
+      },
+    ]);
+  });
+
+  it('reports no savings for a free variant', () => {
+    const [row] = buildTierTable(0, []);
+    expect(row.savingsPercent).toBe(0);
+  });
+});
+
+describe('calculateSurcharges', () => {
+  const rule = (
+    id: number,
+    kind: SurchargeKind,
+    amount: number,
+    options: { threshold?: number; category?: Category } = {},
+  ) => ({
+    id,
+    name: `Rule ${id}`,
+    kind,
+    amount,
+    threshold: options.threshold ?? null,
+    category: options.category ?? null,
+  });
+
+  const design = (elements: number, coverage: number) => ({
+    elements,
+    coverage,
+  });
+
+  const summarize = (applied: ReturnType<typeof calculateSurcharges>) =>
+    applied.map(({ ruleId, side, amount }) => ({ ruleId, side, amount }));
+
+  it('charges nothing for an unprinted item', () => {
+    expect(
+      calculateSurcharges(
+        [rule(1, SurchargeKind.PER_SIDE, 5000)],
+        Category.HOODIE,
+        { FRONT: null, BACK: null },
+      ),
+    ).toEqual([]);
+  });
+
+  it('charges PER_SIDE for every printed side and BOTH_SIDES once', () => {
+    const rules = [
+      rule(1, SurchargeKind.PER_SIDE, 5000),
+      rule(2, SurchargeKind.BOTH_SIDES, 8000),
+    ];
+
+    expect(
+      summarize(
+        calculateSurcharges(rules, Category.HOODIE, {
+          FRONT: design(1, 10),
+          BACK: null,
+        }),
+      ),
+    ).toEqual([{ ruleId: 1, side: 'FRONT', amount: 5000 }]);
+
+    expect(
+      summarize(
+        calculateSurcharges(rules, Category.HOODIE, {
+          FRONT: design(1, 10),
+          BACK: design(1, 10),
+        }),
+      ),
+    ).toEqual([
+      { ruleId: 1, side: 'FRONT', amount: 5000 },
+      { ruleId: 1, side: 'BACK', amount: 5000 },
+      { ruleId: 2, side: null, amount: 8000 },
+    ]);
+  });
+
+  it('uses only the highest element count and coverage threshold reached', () => {
+    const rules = [
+      rule(1, SurchargeKind.ELEMENT_COUNT, 2000, { threshold: 3 }),
+      rule(2, SurchargeKind.ELEMENT_COUNT, 4000, { threshold: 6 }),
+      rule(3, SurchargeKind.COVERAGE, 3000, { threshold: 25 }),
+      rule(4, SurchargeKind.COVERAGE, 6000, { threshold: 50 }),
+    ];
+
+    expect(
+      summarize(
+        calculateSurcharges(rules, Category.T_SHIRT, {
+          FRONT: design(7, 30),
+          BACK: design(2, 80),
+        }),
+      ),
+    ).toEqual([
+      { ruleId: 2, side: 'FRONT', amount: 4000 },
+      { ruleId: 3, side: 'FRONT', amount: 3000 },
+      { ruleId: 4, side: 'BACK', amount: 6000 },
+    ]);
+  });
+
+  it('picks the more expensive rule when thresholds are equal', () => {
+    const rules = [
+      rule(1, SurchargeKind.COVERAGE, 3000, { threshold: 40 }),
+      rule(2, SurchargeKind.COVERAGE, 5000, { threshold: 40 }),
+    ];
+
+    expect(
+      summarize(
+        calculateSurcharges(rules, Category.HOODIE, {
+          FRONT: design(1, 40),
+          BACK: null,
+        }),
+      ),
+    ).toEqual([{ ruleId: 2, side: 'FRONT', amount: 5000 }]);
+  });
+
+  it('skips rules for other categories', () => {
+    const rules = [
+      rule(1, SurchargeKind.PER_SIDE, 5000, { category: Category.CAP }),
+      rule(2, SurchargeKind.PER_SIDE, 3000, { category: Category.HOODIE }),
+    ];
+
+    expect(
+      summarize(
+        calculateSurcharges(rules, Category.HOODIE, {
+          FRONT: design(1, 10),
+          BACK: null,
+        }),
+      ),
+    ).toEqual([{ ruleId: 2, side: 'FRONT', amount: 3000 }]);
+  });
+});
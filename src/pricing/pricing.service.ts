@@ -0,0 +1,468 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Category,
+  PriceTier,
+  PrintSurchargeRule,
+  Prisma,
+  SurchargeKind,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { DesignMeasurement, measureDesign } from '../design/design-coverage';
+import { PriceTierDto } from './dto/replace-price-tiers.dto';
+
+export interface PricingItemInput {
+  variantId: number;
+  quantity: number;
+  // Designs decide the print surcharges; a side without one isn't printed
+  frontDesign?: unknown;
+  backDesign?: unknown;
+}
+
+export type PrintSide = 'FRONT' | 'BACK';
+
+export interface AppliedSurcharge {
+  ruleId: number;
+  name: string;
+  kind: SurchargeKind;
+  // null for rules that apply to the item as a whole (BOTH_SIDES)
+  side: PrintSide | null;
+  amount: number;
+}
+
+export interface PricedLine {
+  variantId: number;
+  quantity: number;
+  // Regular Variant.price, before quantity tiers
+  basePrice: number;
+  // Price per unit after quantity tiers, before print surcharges
+  tierPrice: number;
+  surcharges: AppliedSurcharge[];
+  // Print surcharges per unit
+  surchargeTotal: number;
+  unitPrice: number;
+  lineTotal: number;
+  // minQuantity of the tier that was applied, if any
+  tierMinQuantity: number | null;
+}
+
+export interface PricedItems {
+  lines: PricedLine[];
+  subtotal: number;
+}
+
+// Allowed difference between client and server prices (floating point noise)
+const PRICE_TOLERANCE = 0.01;
+
+type TierRule = Pick<
+  PriceTier,
+  'minQuantity' | 'unitPrice' | 'discountPercent'
+>;
+
+export interface PriceTierRow {
+  minQuantity: number;
+  // null for the last tier, which has no upper bound
+  maxQuantity: number | null;
+  unitPrice: number;
+  savingsPercent: number;
+}
+
+const tierOrder = { orderBy: { minQuantity: 'asc' } } as const;
+
+type SurchargeRule = Pick<
+  PrintSurchargeRule,
+  'id' | 'name' | 'kind' | 'threshold' | 'amount' | 'category'
+>;
+
+export type SideMeasurements = Record<PrintSide, DesignMeasurement | null>;
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// The highest tier reached by the quantity; tiers are sorted by minQuantity
+export function findTier<T extends TierRule>(
+  tiers: T[],
+  quantity: number,
+): T | undefined {
+  return [...tiers].reverse().find((tier) => quantity >= tier.minQuantity);
+}
+
+export function tierUnitPrice(basePrice: number, tier?: TierRule): number {
+  if (!tier) return roundMoney(basePrice);
+  if (tier.unitPrice !== null) return roundMoney(tier.unitPrice);
+  return roundMoney(basePrice * (1 - (tier.discountPercent ?? 0) / 100));
+}
+
+/**
+ * Builds the quantity/price table shown to customers, starting with the
+ * regular price from 1 unit
+ * @param basePrice The variant's regular price
+ * @param tiers The tiers that apply, sorted by minQuantity
+ */
+export function buildTierTable(
+  basePrice: number,
+  tiers: TierRule[],
+): PriceTierRow[] {
+  const rows = [{ minQuantity: 1, unitPrice: roundMoney(basePrice) }].concat(
+    tiers.map((tier) => ({
+      minQuantity: tier.minQuantity,
+      unitPrice: tierUnitPrice(basePrice, tier),
+    })),
+  );
+
+  return rows.map((row, index) => ({
+    ...row,
+    maxQuantity:
+      index + 1 < rows.length ? rows[index + 1].minQuantity - 1 : null,
+    savingsPercent:
+      basePrice > 0
+        ? roundMoney(((basePrice - row.unitPrice) / basePrice) * 100)
+        : 0,
+  }));
+}
+
+/**
+ * Print surcharges for one unit. PER_SIDE is charged for every printed side
+ * and BOTH_SIDES once when both are printed. ELEMENT_COUNT and COVERAGE are
+ * charged per side, using only the highest threshold that side reaches.
+ * @param rules Active rules
+ * @param category The product category; rules for other categories are skipped
+ * @param sides Measurements of the front and back designs
+ */
+export function calculateSurcharges(
+  rules: SurchargeRule[],
+  category: Category,
+  sides: SideMeasurements,
+): AppliedSurcharge[] {
+  const applicable = rules.filter(
+    (rule) => rule.category === null || rule.category === category,
+  );
+  const applied: AppliedSurcharge[] = [];
+  const apply = (rule: SurchargeRule, side: PrintSide | null) =>
+    applied.push({
+      ruleId: rule.id,
+      name: rule.name,
+      kind: rule.kind,
+      side,
+      amount: roundMoney(rule.amount),
+    });
+
+  // Eng yuqori chegarasi o'tilgan qoida (chegara teng bo'lsa qimmatrog'i)
+  const highest = (kind: SurchargeKind, value: number) =>
+    applicable
+      .filter(
+        (rule) =>
+          rule.kind === kind &&
+          rule.threshold !== null &&
+          value >= rule.threshold,
+      )
+      .sort((a, b) => b.threshold! - a.threshold! || b.amount - a.amount)[0];
+
+  for (const side of ['FRONT', 'BACK'] as const) {
+    const measurement = sides[side];
+    if (!measurement) continue;
+
+    applicable
+      .filter((rule) => rule.kind === SurchargeKind.PER_SIDE)
+      .forEach((rule) => apply(rule, side));
+
+    const byElements = highest(
+      SurchargeKind.ELEMENT_COUNT,
+      measurement.elements,
+    );
+    if (byElements) apply(byElements, side);
+
+    const byCoverage = highest(SurchargeKind.COVERAGE, measurement.coverage);
+    if (byCoverage) apply(byCoverage, side);
+  }
+
+  if (sides.FRONT && sides.BACK) {
+    applicable
+      .filter((rule) => rule.kind === SurchargeKind.BOTH_SIDES)
+      .forEach((rule) => apply(rule, null));
+  }
+
+  return applied;
+}
+
+/**
+ * The price breakdown stored on OrderItem.priceBreakdown
+ * @param line The priced line of the item
+ */
+export function toPriceBreakdown(line: PricedLine): Prisma.InputJsonObject {
+  return {
+    basePrice: line.basePrice,
+    tierMinQuantity: line.tierMinQuantity,
+    tierPrice: line.tierPrice,
+    surcharges: line.surcharges.map((surcharge) => ({ ...surcharge })),
+    surchargeTotal: line.surchargeTotal,
+    unitPrice: line.unitPrice,
+    quantity: line.quantity,
+    lineTotal: line.lineTotal,
+  };
+}
+
+@Injectable()
+export class PricingService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Prices order lines from the current Variant.price values, quantity
+   * tiers and print surcharges. Variant tiers count the units of that
+   * variant in the order; product tiers count all units of the product, so
+   * sizes can be mixed. Surcharges are added per unit on top of the tier price.
+   * @param items The variant/quantity pairs to price, with their designs
+   * @param client Optional transaction client so pricing reads happen inside checkout
+   */
+  async priceItems(
+    items: PricingItemInput[],
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<PricedItems> {
+    if (!items || items.length === 0) {
+      throw new BadRequestException('Order must contain at least one item');
+    }
+
+    const variantIds = [...new Set(items.map((item) => item.variantId))];
+    const variants = await client.variant.findMany({
+      where: { id: { in: variantIds } },
+      select: {
+        id: true,
+        price: true,
+        productId: true,
+        priceTiers: tierOrder,
+        product: { select: { category: true, priceTiers: tierOrder } },
+      },
+    });
+    const variantById = new Map(variants.map((v) => [v.id, v]));
+    const surchargeRules = await client.printSurchargeRule.findMany({
+      where: { isActive: true },
+    });
+
+    const quantityByVariant = new Map<number, number>();
+    const quantityByProduct = new Map<number, number>();
+    for (const item of items) {
+      const variant = variantById.get(item.variantId);
+      if (!variant) continue;
+      quantityByVariant.set(
+        variant.id,
+        (quantityByVariant.get(variant.id) ?? 0) + item.quantity,
+      );
+      quantityByProduct.set(
+        variant.productId,
+        (quantityByProduct.get(variant.productId) ?? 0) + item.quantity,
+      );
+    }
+
+    const lines = items.map((item) => {
+      const variant = variantById.get(item.variantId);
+      if (!variant) {
+        throw new BadRequestException(
+          `Variant with ID ${item.variantId} not found`,
+        );
+      }
+
+      const ownTiers = variant.priceTiers.length > 0;
+      const tier = ownTiers
+        ? findTier(variant.priceTiers, quantityByVariant.get(variant.id)!)
+        : findTier(
+            variant.product.priceTiers,
+            quantityByProduct.get(variant.productId)!,
+          );
+      const tierPrice = tierUnitPrice(variant.price, tier);
+      const surcharges = calculateSurcharges(
+        surchargeRules,
+        variant.product.category,
+        {
+          FRONT: measureDesign(item.frontDesign),
+          BACK: measureDesign(item.backDesign),
+        },
+      );
+      const surchargeTotal = roundMoney(
+        surcharges.reduce((sum, surcharge) => sum + surcharge.amount, 0),
+      );
+      const unitPrice = roundMoney(tierPrice + surchargeTotal);
+
+      return {
+        variantId: item.variantId,
+        quantity: item.quantity,
+        basePrice: roundMoney(variant.price),
+        tierPrice,
+        surcharges,
+        surchargeTotal,
+        unitPrice,
+        lineTotal: roundMoney(unitPrice * item.quantity),
+        tierMinQuantity: tier?.minQuantity ?? null,
+      };
+    });
+
+    const subtotal = roundMoney(
+      lines.reduce((sum, line) => sum + line.lineTotal, 0),
+    );
+
+    return { lines, subtotal };
+  }
+
+  /**
+   * Quantity price table for a variant: its own tiers, or its product's
+   * @param variantId The variant ID
+   */
+  async getTierTable(variantId: number): Promise<PriceTierRow[]> {
+    const variant = await this.prisma.variant.findUnique({
+      where: { id: variantId },
+      select: {
+        price: true,
+        priceTiers: tierOrder,
+        product: { select: { priceTiers: tierOrder } },
+      },
+    });
+
+    if (!variant) {
+      throw new NotFoundException(`Variant with ID ${variantId} not found`);
+    }
+
+    return buildTierTable(
+      variant.price,
+      variant.priceTiers.length > 0
+        ? variant.priceTiers
+        : variant.product.priceTiers,
+    );
+  }
+
+  /**
+   * Replaces the quantity tiers of a variant or of a whole product. An empty
+   * list removes them. Every tier must be cheaper than the one before it for
+   * each variant it applies to.
+   * @param target The variant or product the tiers belong to
+   * @param tiers The new tiers
+   */
+  async replaceTiers(
+    target: { variantId: number } | { productId: number },
+    tiers: PriceTierDto[],
+  ): Promise<PriceTier[]> {
+    const variants =
+      'variantId' in target
+        ? await this.prisma.variant.findMany({
+            where: { id: target.variantId },
+            select: { price: true },
+          })
+        : await this.prisma.variant.findMany({
+            where: { productId: target.productId },
+            select: { price: true },
+          });
+
+    if ('variantId' in target && variants.length === 0) {
+      throw new NotFoundException(
+        `Variant with ID ${target.variantId} not found`,
+      );
+    }
+    if ('productId' in target) {
+      const product = await this.prisma.product.findUnique({
+        where: { id: target.productId },
+      });
+      if (!product) {
+        throw new NotFoundException(
+          `Product with ID ${target.productId} not found`,
+        );
+      }
+    }
+
+    const rules = [...tiers]
+      .sort((a, b) => a.minQuantity - b.minQuantity)
+      .map((tier) => ({
+        minQuantity: tier.minQuantity,
+        unitPrice: tier.unitPrice ?? null,
+        discountPercent: tier.discountPercent ?? null,
+      }));
+    this.assertValidTiers(
+      rules,
+      variants.map((variant) => variant.price),
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.priceTier.deleteMany({ where: target });
+      await tx.priceTier.createMany({
+        data: rules.map((rule) => ({ ...target, ...rule })),
+      });
+
+      return tx.priceTier.findMany({ where: target, ...tierOrder });
+    });
+  }
+
+  /**
+   * Rejects client-supplied prices that don't match the server calculation
+   * @param priced The server-side pricing result
+   * @param expectedTotal The total the order will be stored with
+   * @param providedTotal The total sent by the client, if any
+   * @param providedUnitPrices Per-line prices sent by the client, in the same order as priced.lines
+   */
+  assertClientTotals(
+    priced: PricedItems,
+    expectedTotal: number,
+    providedTotal?: number,
+    providedUnitPrices: (number | undefined)[] = [],
+  ): void {
+    const lineMismatches = priced.lines
+      .map((line, index) => ({
+        index,
+        variantId: line.variantId,
+        expectedUnitPrice: line.unitPrice,
+        providedUnitPrice: providedUnitPrices[index],
+      }))
+      .filter(
+        (line) =>
+          line.providedUnitPrice !== undefined &&
+          line.providedUnitPrice !== null &&
+          Math.abs(Number(line.providedUnitPrice) - line.expectedUnitPrice) >
+            PRICE_TOLERANCE,
+      );
+
+    const totalMismatch =
+      providedTotal !== undefined &&
+      providedTotal !== null &&
+      Math.abs(Number(providedTotal) - expectedTotal) > PRICE_TOLERANCE;
+
+    if (totalMismatch || lineMismatches.length > 0) {
+      throw new BadRequestException({
+        message: 'Submitted prices do not match the current catalog prices',
+        error: 'Price Mismatch',
+        details: {
+          expectedTotal,
+          providedTotal: providedTotal ?? null,
+          lines: lineMismatches,
+        },
+      });
+    }
+  }
+
+  private assertValidTiers(rules: TierRule[], basePrices: number[]): void {
+    for (const [index, rule] of rules.entries()) {
+      if ((rule.unitPrice === null) === (rule.discountPercent === null)) {
+        throw new BadRequestException(
+          `Tier from ${rule.minQuantity} units needs either unitPrice or discountPercent`,
+        );
+      }
+      if (index > 0 && rules[index - 1].minQuantity === rule.minQuantity) {
+        throw new BadRequestException(
+          `Duplicate tier for ${rule.minQuantity} units`,
+        );
+      }
+    }
+
+    for (const basePrice of basePrices) {
+      let previous = roundMoney(basePrice);
+      for (const rule of rules) {
+        const unitPrice = tierUnitPrice(basePrice, rule);
+        if (unitPrice >= previous) {
+          throw new BadRequestException(
+            `Tier from ${rule.minQuantity} units must be cheaper than the previous price (${unitPrice} >= ${previous})`,
+          );
+        }
+        previous = unitPrice;
+      }
+    }
+  }
+}
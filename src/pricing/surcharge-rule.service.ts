@@ -0,0 +1,92 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SurchargeKind } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateSurchargeRuleDto } from './dto/create-surcharge-rule.dto';
+import { UpdateSurchargeRuleDto } from './dto/update-surcharge-rule.dto';
+
+const THRESHOLD_KINDS: SurchargeKind[] = [
+  SurchargeKind.ELEMENT_COUNT,
+  SurchargeKind.COVERAGE,
+];
+
+@Injectable()
+export class SurchargeRuleService {
+  constructor(private prisma: PrismaService) {}
+
+  create(dto: CreateSurchargeRuleDto) {
+    return this.prisma.printSurchargeRule.create({
+      data: {
+        ...dto,
+        threshold: this.resolveThreshold(dto.kind, dto.threshold),
+      },
+    });
+  }
+
+  findAll() {
+    return this.prisma.printSurchargeRule.findMany({
+      orderBy: [{ kind: 'asc' }, { threshold: 'asc' }],
+    });
+  }
+
+  async findOne(id: number) {
+    const rule = await this.prisma.printSurchargeRule.findUnique({
+      where: { id },
+    });
+
+    if (!rule) {
+      throw new NotFoundException(`Surcharge rule with ID ${id} not found`);
+    }
+
+    return rule;
+  }
+
+  async update(id: number, dto: UpdateSurchargeRuleDto) {
+    const rule = await this.findOne(id);
+    const kind = dto.kind ?? rule.kind;
+
+    return this.prisma.printSurchargeRule.update({
+      where: { id },
+      data: {
+        ...dto,
+        threshold: this.resolveThreshold(
+          kind,
+          dto.threshold ?? rule.threshold ?? undefined,
+        ),
+      },
+    });
+  }
+
+  // Buyurtmalardagi priceBreakdown qoida nomi va summasini saqlab qoladi
+  async remove(id: number) {
+    await this.findOne(id);
+    await this.prisma.printSurchargeRule.delete({ where: { id } });
+
+    return { message: `Surcharge rule with ID ${id} has been deleted` };
+  }
+
+  // Chegara faqat ELEMENT_COUNT va COVERAGE uchun kerak, boshqalarida saqlanmaydi
+  private resolveThreshold(
+    kind: SurchargeKind,
+    threshold?: number,
+  ): number | null {
+    if (!THRESHOLD_KINDS.includes(kind)) return null;
+
+    if (threshold === undefined) {
+      throw new BadRequestException(`threshold is required for ${kind} rules`);
+    }
+    if (kind === SurchargeKind.ELEMENT_COUNT && !Number.isInteger(threshold)) {
+      throw new BadRequestException(
+        'threshold must be a whole number of elements',
+      );
+    }
+    if (kind === SurchargeKind.COVERAGE && threshold > 100) {
+      throw new BadRequestException('Coverage threshold cannot exceed 100');
+    }
+
+    return threshold;
+  }
+}
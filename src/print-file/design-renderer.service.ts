@@ -0,0 +1,237 @@
+import { Injectable } from '@nestjs/common';
+import type { CanvasRenderingContext2D } from 'canvas';
+import { registerBundledFonts, resolveFontFamily } from './print-fonts';
+import {
+  DesignDocumentDto,
+  DesignElementType,
+  DesignShape,
+  ShapeElementDto,
+  TextElementDto,
+} from '../design/dto/design-document.dto';
+import { AssetResolverService } from '../asset-resolver/asset-resolver.service';
+
+export const MM_PER_INCH = 25.4;
+
+const DEFAULT_FONT_SIZE_MM = 10;
+const DEFAULT_LINE_HEIGHT = 1.2;
+const DEFAULT_TEXT_COLOR = '#000000';
+
+export function mmToPx(mm: number, dpi: number): number {
+  return Math.round((mm / MM_PER_INCH) * dpi);
+}
+
+// Dizayn hujjatini shaffof PNG ga chizadi: bosma fayllar va mockuplar uchun umumiy
+@Injectable()
+export class DesignRendererService {
+  constructor(private assetResolver: AssetResolverService) {}
+
+  /**
+   * Downloads every image used by the designs before rendering starts,
+   * so a missing asset fails the request before any file is written
+   */
+  async loadAssets(designs: DesignDocumentDto[]): Promise<Map<string, Buffer>> {
+    const assetUrls = new Set(
+      designs.flatMap((design) =>
+        design.elements.flatMap((element) =>
+          element.type === DesignElementType.IMAGE ? [element.assetUrl] : [],
+        ),
+      ),
+    );
+
+    const assets = new Map<string, Buffer>();
+    for (const assetUrl of assetUrls) {
+      assets.set(assetUrl, await this.assetResolver.resolve(assetUrl));
+    }
+    return assets;
+  }
+
+  /**
+   * Renders a design onto a transparent canvas of the given pixel size.
+   * Element positions are percentages of that canvas. With a bleed, the
+   * canvas grows by that many pixels on every side so elements reaching past
+   * the print area are kept for trimming.
+   */
+  async render(
+    design: DesignDocumentDto,
+    assets: Map<string, Buffer>,
+    width: number,
+    height: number,
+    dpi: number,
+    bleed = 0,
+  ): Promise<Buffer> {
+    const { createCanvas, loadImage, registerFont } = await import('canvas');
+
+    // Fontlar canvas yaratilishidan oldin ro'yxatdan o'tishi kerak
+    registerBundledFonts(registerFont);
+
+    const canvas = createCanvas(width + bleed * 2, height + bleed * 2);
+    const ctx = canvas.getContext('2d');
+
+    // Shaffof fon (bu muhim, chunki kiyim ustiga bosiladi)
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.translate(bleed, bleed);
+
+    for (const element of design.elements) {
+      // Foizlar print area o'lchamiga nisbatan hisoblanadi
+      const x = (element.x / 100) * width;
+      const y = (element.y / 100) * height;
+      const elementWidth = (element.width / 100) * width;
+      const elementHeight = (element.height / 100) * height;
+
+      ctx.save();
+      // Markaz bo'yicha transformatsiya qilish
+      ctx.translate(x + elementWidth / 2, y + elementHeight / 2);
+      ctx.rotate(((element.rotation || 0) * Math.PI) / 180);
+      ctx.globalAlpha = element.opacity ?? 1;
+
+      switch (element.type) {
+        case DesignElementType.IMAGE: {
+          const img = await loadImage(assets.get(element.assetUrl)!);
+          ctx.drawImage(
+            img,
+            -elementWidth / 2,
+            -elementHeight / 2,
+            elementWidth,
+            elementHeight,
+          );
+          break;
+        }
+        case DesignElementType.TEXT:
+          this.drawText(ctx, element, elementWidth, dpi);
+          break;
+        case DesignElementType.SHAPE:
+          this.drawShape(ctx, element, elementWidth, elementHeight, dpi);
+          break;
+      }
+
+      ctx.restore();
+    }
+
+    return canvas.toBuffer('image/png', { resolution: dpi });
+  }
+
+  /**
+   * Draws a text element inside its box, with the origin at the box centre.
+   * Lines are centred vertically and aligned horizontally by textAlign.
+   * fontSize, strokeWidth and letterSpacing are in millimetres so the printed
+   * size does not depend on the DPI.
+   */
+  private drawText(
+    ctx: CanvasRenderingContext2D,
+    element: TextElementDto,
+    boxWidth: number,
+    dpi: number,
+  ): void {
+    const pxPerMm = dpi / MM_PER_INCH;
+    const fontSize = (element.fontSize || DEFAULT_FONT_SIZE_MM) * pxPerMm;
+    const letterSpacing = (element.letterSpacing || 0) * pxPerMm;
+    const strokeWidth = (element.strokeWidth || 0) * pxPerMm;
+    const lineHeight = fontSize * (element.lineHeight || DEFAULT_LINE_HEIGHT);
+
+    const fontStyle = element.fontStyle === 'italic' ? 'italic' : 'normal';
+    const fontWeight = element.fontWeight === 'bold' ? 'bold' : 'normal';
+    ctx.font = `${fontStyle} ${fontWeight} ${fontSize}px "${resolveFontFamily(element.fontFamily)}"`;
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'left';
+    ctx.fillStyle = element.color || DEFAULT_TEXT_COLOR;
+    ctx.lineJoin = 'round';
+
+    const lines = element.text.split(/\r?\n/);
+    const firstLineY = -((lines.length - 1) * lineHeight) / 2;
+
+    lines.forEach((line, index) => {
+      // Harflar orasida masofa bo'lmasa, qator bitta chaqiruvda chiziladi:
+      // kerning va shaping brauzerdagi ko'rinish bilan bir xil qoladi
+      const parts = letterSpacing !== 0 ? Array.from(line) : [line];
+      const partWidths = parts.map((part) => ctx.measureText(part).width);
+      const lineWidth =
+        partWidths.reduce((sum, w) => sum + w, 0) +
+        letterSpacing * Math.max(parts.length - 1, 0);
+
+      let cursorX = -boxWidth / 2;
+      if (element.textAlign === 'center') {
+        cursorX = -lineWidth / 2;
+      } else if (element.textAlign === 'right') {
+        cursorX = boxWidth / 2 - lineWidth;
+      }
+      const lineY = firstLineY + index * lineHeight;
+
+      // Avval kontur, keyin to'ldirish: kontur harfni yopib qo'ymaydi
+      if (strokeWidth > 0) {
+        ctx.strokeStyle = element.strokeColor || DEFAULT_TEXT_COLOR;
+        ctx.lineWidth = strokeWidth;
+        this.forEachPart(parts, partWidths, cursorX, letterSpacing, (c, cx) =>
+          ctx.strokeText(c, cx, lineY),
+        );
+      }
+      this.forEachPart(parts, partWidths, cursorX, letterSpacing, (c, cx) =>
+        ctx.fillText(c, cx, lineY),
+      );
+    });
+  }
+
+  // Shakl o'lchamlari quti o'lchamiga teng, kontur va burchak radiusi mm da
+  private drawShape(
+    ctx: CanvasRenderingContext2D,
+    element: ShapeElementDto,
+    boxWidth: number,
+    boxHeight: number,
+    dpi: number,
+  ): void {
+    const pxPerMm = dpi / MM_PER_INCH;
+    const strokeWidth = (element.strokeWidth || 0) * pxPerMm;
+    const left = -boxWidth / 2;
+    const top = -boxHeight / 2;
+
+    ctx.beginPath();
+    switch (element.shape) {
+      case DesignShape.RECTANGLE: {
+        const radius = Math.min(
+          (element.cornerRadius || 0) * pxPerMm,
+          boxWidth / 2,
+          boxHeight / 2,
+        );
+        ctx.moveTo(left + radius, top);
+        ctx.arcTo(-left, top, -left, -top, radius);
+        ctx.arcTo(-left, -top, left, -top, radius);
+        ctx.arcTo(left, -top, left, top, radius);
+        ctx.arcTo(left, top, -left, top, radius);
+        ctx.closePath();
+        break;
+      }
+      case DesignShape.ELLIPSE:
+        ctx.ellipse(0, 0, boxWidth / 2, boxHeight / 2, 0, 0, 2 * Math.PI);
+        break;
+      case DesignShape.LINE:
+        // Chiziq quti markazidan gorizontal o'tadi, burchak rotation orqali beriladi
+        ctx.moveTo(left, 0);
+        ctx.lineTo(-left, 0);
+        break;
+    }
+
+    if (element.fill && element.shape !== DesignShape.LINE) {
+      ctx.fillStyle = element.fill;
+      ctx.fill();
+    }
+    if (strokeWidth > 0) {
+      ctx.strokeStyle = element.strokeColor || DEFAULT_TEXT_COLOR;
+      ctx.lineWidth = strokeWidth;
+      ctx.stroke();
+    }
+  }
+
+  // Qator bo'laklarini (butun qator yoki alohida harflar) ketma-ket chizish
+  private forEachPart(
+    parts: string[],
+    partWidths: number[],
+    startX: number,
+    letterSpacing: number,
+    draw: (part: string, x: number) => void,
+  ): void {
+    let cursorX = startX;
+    parts.forEach((part, index) => {
+      draw(part, cursorX);
+      cursorX += partWidths[index] + letterSpacing;
+    });
+  }
+}
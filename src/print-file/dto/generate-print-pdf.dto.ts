@@ -0,0 +1,26 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsNumber, IsOptional, Max, Min } from 'class-validator';
+
+export class GeneratePrintPdfDto {
+  @ApiPropertyOptional({
+    description:
+      'Bleed around the print area in millimetres (defaults to PRINT_PDF_BLEED_MM)',
+    example: 3,
+    minimum: 0,
+    maximum: 10,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(10)
+  bleed?: number;
+
+  @ApiPropertyOptional({
+    description: 'Draw crop marks at the trim corners',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  cropMarks?: boolean;
+}
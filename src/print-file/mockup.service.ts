@@ -0,0 +1,303 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, Variant } from '@prisma/client';
+import sharp from 'sharp';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { AssetResolverService } from '../asset-resolver/asset-resolver.service';
+import { parseDesignDocument } from '../design/parse-design-document';
+import { DesignRendererService, MM_PER_INCH } from './design-renderer.service';
+import { PrintSide } from './print-file.service';
+
+export interface GeneratedMockups {
+  frontPreviewUrl: string | null;
+  frontThumbnailUrl: string | null;
+  backPreviewUrl: string | null;
+  backThumbnailUrl: string | null;
+}
+
+interface DesignedItem {
+  frontDesign: unknown;
+  backDesign: unknown;
+  frontPreviewUrl: string | null;
+  frontThumbnailUrl: string | null;
+  backPreviewUrl: string | null;
+  backThumbnailUrl: string | null;
+  variant: Variant;
+}
+
+const SIDES = [
+  {
+    side: PrintSide.FRONT,
+    design: 'frontDesign',
+    image: 'frontImage',
+    preview: 'frontPreviewUrl',
+    thumbnail: 'frontThumbnailUrl',
+  },
+  {
+    side: PrintSide.BACK,
+    design: 'backDesign',
+    image: 'backImage',
+    preview: 'backPreviewUrl',
+    thumbnail: 'backThumbnailUrl',
+  },
+] as const;
+
+const DEFAULT_MOCKUP_PX_PER_MM = 1;
+const THUMBNAIL_WIDTH = 320;
+
+@Injectable()
+export class MockupService {
+  private readonly uploadPath = path.join(process.cwd(), 'uploads');
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private designRenderer: DesignRendererService,
+    private assetResolver: AssetResolverService,
+  ) {}
+
+  /**
+   * Renders the cart item design onto the variant photos and stores the
+   * preview and thumbnail URLs on the cart item
+   * @param cartItemId The cart item ID
+   */
+  async generateForCartItem(cartItemId: number): Promise<GeneratedMockups> {
+    const cartItem = await this.prisma.cartItem.findUnique({
+      where: { id: cartItemId },
+      include: { variant: true },
+    });
+
+    if (!cartItem) {
+      throw new NotFoundException(`CartItem #${cartItemId} topilmadi`);
+    }
+    const { variant } = cartItem;
+    if (!variant) {
+      throw new NotFoundException(
+        `CartItem #${cartItemId} varianti o'chirilgan`,
+      );
+    }
+
+    const mockups = await this.renderMockups(`cart-${cartItemId}`, {
+      ...cartItem,
+      variant,
+    });
+    await this.prisma.cartItem.update({
+      where: { id: cartItemId },
+      data: mockups,
+    });
+    await this.removeStaleFiles({ ...cartItem, variant }, mockups);
+
+    return mockups;
+  }
+
+  /**
+   * Renders the order item design onto the variant photos and stores the
+   * preview and thumbnail URLs on the order item
+   * @param orderItemId The order item ID
+   */
+  async generateForOrderItem(orderItemId: number): Promise<GeneratedMockups> {
+    const orderItem = await this.prisma.orderItem.findUnique({
+      where: { id: orderItemId },
+      include: { variant: true },
+    });
+
+    if (!orderItem) {
+      throw new NotFoundException(`OrderItem #${orderItemId} topilmadi`);
+    }
+
+    const mockups = await this.renderMockups(`item-${orderItemId}`, orderItem);
+    await this.prisma.orderItem.update({
+      where: { id: orderItemId },
+      data: mockups,
+    });
+    await this.removeStaleFiles(orderItem, mockups);
+
+    return mockups;
+  }
+
+  // Mockup yaratilmasa ham savatcha ishlayveradi: xatolik faqat logga yoziladi
+  async tryGenerateForCartItem(cartItemId: number): Promise<void> {
+    try {
+      await this.generateForCartItem(cartItemId);
+    } catch (error) {
+      console.error(
+        `Mockup generation error (cart item ${cartItemId}):`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Generates mockups for designed items of an order that have none yet,
+   * e.g. items created from an API call or from an old cart
+   * @param orderId The order ID
+   */
+  async tryGenerateMissingForOrder(orderId: number): Promise<void> {
+    const items = await this.prisma.orderItem.findMany({
+      where: {
+        orderId,
+        frontThumbnailUrl: null,
+        backThumbnailUrl: null,
+        OR: [
+          { frontDesign: { not: Prisma.DbNull } },
+          { backDesign: { not: Prisma.DbNull } },
+        ],
+      },
+      select: { id: true },
+    });
+
+    await this.tryGenerateForOrderItems(items.map((item) => item.id));
+  }
+
+  // Buyurtma yaratilgandan keyin chaqiriladi, buyurtmani to'xtatmaydi
+  async tryGenerateForOrderItems(orderItemIds: number[]): Promise<void> {
+    for (const orderItemId of orderItemIds) {
+      try {
+        await this.generateForOrderItem(orderItemId);
+      } catch (error) {
+        console.error(
+          `Mockup generation error (order item ${orderItemId}):`,
+          error,
+        );
+      }
+    }
+  }
+
+  private async renderMockups(
+    filePrefix: string,
+    item: DesignedItem,
+  ): Promise<GeneratedMockups> {
+    const mockups: GeneratedMockups = {
+      frontPreviewUrl: null,
+      frontThumbnailUrl: null,
+      backPreviewUrl: null,
+      backThumbnailUrl: null,
+    };
+
+    const pxPerMm = this.getPxPerMm();
+    const { variant } = item;
+
+    for (const { side, design, image, preview, thumbnail } of SIDES) {
+      if (!item[design]) continue;
+
+      const document = parseDesignDocument(item[design]);
+      if (document.elements.length === 0) continue;
+
+      // Dizayn mockup rasmi masshtabida chiziladi: 1 mm = pxPerMm piksel
+      const assets = await this.designRenderer.loadAssets([document]);
+      const overlay = await this.designRenderer.render(
+        document,
+        assets,
+        Math.max(1, Math.round(variant.printAreaWidth * pxPerMm)),
+        Math.max(1, Math.round(variant.printAreaHeight * pxPerMm)),
+        pxPerMm * MM_PER_INCH,
+      );
+
+      const baseImage = await this.assetResolver.resolve(variant[image]);
+      const previewBuffer = await this.composite(
+        baseImage,
+        overlay,
+        Math.round(variant.printAreaLeft * pxPerMm),
+        Math.round(variant.printAreaTop * pxPerMm),
+      );
+      const thumbnailBuffer = await sharp(previewBuffer)
+        .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+
+      mockups[preview] = await this.saveMockup(
+        `${filePrefix}-${side}`,
+        previewBuffer,
+      );
+      mockups[thumbnail] = await this.saveMockup(
+        `${filePrefix}-${side}-thumb`,
+        thumbnailBuffer,
+      );
+    }
+
+    return mockups;
+  }
+
+  /**
+   * Places the rendered design on the variant photo. Parts of the design
+   * that fall outside the photo are cropped, since sharp rejects overlays
+   * larger than the base image.
+   */
+  private async composite(
+    baseImage: Buffer,
+    overlay: Buffer,
+    left: number,
+    top: number,
+  ): Promise<Buffer> {
+    const base = sharp(baseImage);
+    const { width: baseWidth = 0, height: baseHeight = 0 } =
+      await base.metadata();
+    const { width: overlayWidth = 0, height: overlayHeight = 0 } =
+      await sharp(overlay).metadata();
+
+    const cropLeft = Math.max(0, -left);
+    const cropTop = Math.max(0, -top);
+    const targetLeft = Math.max(0, left);
+    const targetTop = Math.max(0, top);
+    const width = Math.min(overlayWidth - cropLeft, baseWidth - targetLeft);
+    const height = Math.min(overlayHeight - cropTop, baseHeight - targetTop);
+
+    const layers: sharp.OverlayOptions[] = [];
+    if (width > 0 && height > 0) {
+      const input =
+        width === overlayWidth && height === overlayHeight
+          ? overlay
+          : await sharp(overlay)
+              .extract({ left: cropLeft, top: cropTop, width, height })
+              .toBuffer();
+      layers.push({ input, left: targetLeft, top: targetTop });
+    }
+
+    // Shaffof kiyim rasmlari oq fonda ko'rsatiladi
+    return base
+      .composite(layers)
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: 85 })
+      .toBuffer();
+  }
+
+  private async saveMockup(name: string, buffer: Buffer): Promise<string> {
+    const { v4: uuidv4 } = await import('uuid');
+
+    const mockupDir = path.join(this.uploadPath, 'mockups');
+    await fs.mkdir(mockupDir, { recursive: true });
+
+    const fileName = `${name}-${uuidv4()}.jpg`;
+    await fs.writeFile(path.join(mockupDir, fileName), buffer);
+
+    return `/uploads/mockups/${fileName}`;
+  }
+
+  // Faqat server yaratgan (uploads/mockups ichidagi) eski fayllar o'chiriladi
+  private async removeStaleFiles(
+    previous: DesignedItem,
+    current: GeneratedMockups,
+  ): Promise<void> {
+    const mockupDir = path.join(this.uploadPath, 'mockups');
+
+    for (const field of Object.keys(current) as (keyof GeneratedMockups)[]) {
+      const fileUrl = previous[field];
+      if (!fileUrl || fileUrl === current[field]) continue;
+
+      const relativePath = fileUrl.replace(/^\/?uploads\//, '');
+      const absolutePath = path.resolve(this.uploadPath, relativePath);
+      if (absolutePath.startsWith(mockupDir + path.sep)) {
+        await fs.rm(absolutePath, { force: true });
+      }
+    }
+  }
+
+  private getPxPerMm(): number {
+    const pxPerMm = Number(this.configService.get<string>('MOCKUP_PX_PER_MM'));
+    return Number.isFinite(pxPerMm) && pxPerMm > 0
+      ? pxPerMm
+      : DEFAULT_MOCKUP_PX_PER_MM;
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Param,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  ParseIntPipe,
+  ParseEnumPipe,
+  StreamableFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiBearerAuth, ApiBody, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { createReadStream } from 'fs';
+import { PrintFileService, PrintSide } from './print-file.service';
+import { MockupService } from './mockup.service';
+import { GeneratePrintPdfDto } from './dto/generate-print-pdf.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+
+@ApiTags('Print Files')
+@Controller('print-files')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.SUPER_ADMIN)
+@ApiBearerAuth()
+export class PrintFileController {
+  constructor(
+    private readonly printFileService: PrintFileService,
+    private readonly mockupService: MockupService,
+  ) {}
+
+  @Post('pending/generate')
+  @HttpCode(HttpStatus.OK)
+  generatePending() {
+    // Ishlab chiqarishdagi (PAID/PROCESSING) buyurtmalarning yetishmayotgan fayllari
+    return this.printFileService.generatePendingPrintFiles();
+  }
+
+  @Post('orders/:id/pdf')
+  @HttpCode(HttpStatus.OK)
+  generateOrderPdf(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: GeneratePrintPdfDto,
+  ) {
+    return this.printFileService.generatePrintFile(id, dto);
+  }
+
+  @Get('orders/:id/pdf')
+  @HttpCode(HttpStatus.OK)
+  downloadOrderPdf(@Param('id', ParseIntPipe) id: number) {
+    const { absolutePath, fileName } =
+      this.printFileService.getPrintPdfPath(id);
+
+    return new StreamableFile(createReadStream(absolutePath), {
+      type: 'application/pdf',
+      disposition: `attachment; filename="${fileName}"`,
+    });
+  }
+
+  @Post('order-items/:id/generate')
+  @HttpCode(HttpStatus.OK)
+  generate(@Param('id', ParseIntPipe) id: number) {
+    // Faqat hali fayli yo'q tomonlar render qilinadi
+    return this.printFileService.generatePrintFileWithCanvas(id);
+  }
+
+  @Post('order-items/:id/regenerate')
+  @HttpCode(HttpStatus.OK)
+  regenerate(@Param('id', ParseIntPipe) id: number) {
+    return this.printFileService.generatePrintFileWithCanvas(id, {
+      force: true,
+    });
+  }
+
+  @Post('order-items/:id/mockups')
+  @HttpCode(HttpStatus.OK)
+  regenerateMockups(@Param('id', ParseIntPipe) id: number) {
+    return this.mockupService.generateForOrderItem(id);
+  }
+
+  @Get('order-items/:id/:side')
+  @HttpCode(HttpStatus.OK)
+  async download(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('side', new ParseEnumPipe(PrintSide)) side: PrintSide,
+  ) {
+    const { absolutePath, fileName } =
+      await this.printFileService.getPrintFilePath(id, side);
+
+    return new StreamableFile(createReadStream(absolutePath), {
+      disposition: `attachment; filename="${fileName}"`,
+    });
+  }
+
+  @Put('order-items/:id/:side')
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: {
+        fileSize: 50 * 1024 * 1024, // 50MB
+      },
+    }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+    },
+  })
+  @HttpCode(HttpStatus.OK)
+  replace(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('side', new ParseEnumPipe(PrintSide)) side: PrintSide,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
+    return this.printFileService.uploadPrintFile(file, id, side);
+  }
+}
@@ -1,8 +1,30 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { PrintFileService } from './print-file.service';
+import { DesignRendererService } from './design-renderer.service';
+import { MockupService } from './mockup.service';
+import { PrintPdfService } from './print-pdf.service';
+import { PrintFileController } from './print-file.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { SecurityModule } from '../common/security/security.module';
+import { AssetResolverModule } from '../asset-resolver/asset-resolver.module';
 
 @Module({
-  providers: [PrintFileService],
-  exports: [PrintFileService],
+  imports: [
+    PrismaModule,
+    ConfigModule,
+    AuthModule,
+    SecurityModule,
+    AssetResolverModule,
+  ],
+  controllers: [PrintFileController],
+  providers: [
+    PrintFileService,
+    DesignRendererService,
+    MockupService,
+    PrintPdfService,
+  ],
+  exports: [PrintFileService, MockupService],
 })
 export class PrintFileModule {}
@@ -1,40 +1,345 @@
 import {
   Injectable,
   NotFoundException,
+  BadRequestException,
   InternalServerErrorException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OrderStatus } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as fsSync from 'fs';
+import { parseDesignDocument } from '../design/parse-design-document';
+import { DesignRendererService, mmToPx } from './design-renderer.service';
+import { PrintPdfPage, PrintPdfService } from './print-pdf.service';
+import { GeneratePrintPdfDto } from './dto/generate-print-pdf.dto';
+
+export enum PrintSide {
+  FRONT = 'front',
+  BACK = 'back',
+}
+
+export interface GeneratedPrintFiles {
+  frontPrintFile: string | null;
+  backPrintFile: string | null;
+}
+
+export interface GeneratePrintFileOptions {
+  // Re-render sides that already have a print file
+  force?: boolean;
+}
+
+const PRINT_SIDES: PrintSide[] = [PrintSide.FRONT, PrintSide.BACK];
+
+const DESIGN_FIELDS = {
+  [PrintSide.FRONT]: 'frontDesign',
+  [PrintSide.BACK]: 'backDesign',
+} as const;
+
+const PRINT_FILE_FIELDS = {
+  [PrintSide.FRONT]: 'frontPrintFile',
+  [PrintSide.BACK]: 'backPrintFile',
+} as const;
+
+// Orders in these statuses are waiting on the production floor
+const PRODUCTION_STATUSES: OrderStatus[] = [
+  OrderStatus.PAID,
+  OrderStatus.PROCESSING,
+];
+
+const ALLOWED_PRINT_FILE_TYPES: Record<string, string> = {
+  'image/png': '.png',
+  'image/tiff': '.tiff',
+  'application/pdf': '.pdf',
+};
+
+const DEFAULT_PRINT_DPI = 300;
+const DEFAULT_PDF_BLEED_MM = 3;
 
 @Injectable()
 export class PrintFileService {
   private readonly uploadPath = path.join(process.cwd(), 'uploads');
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private designRenderer: DesignRendererService,
+    private printPdfService: PrintPdfService,
+  ) {}
+
+  /**
+   * Builds a print-ready PDF for an order with one page per designed item side.
+   * Pages use the physical print area size, with optional bleed, crop marks
+   * and a slug line (order, item, variant and quantity).
+   * @param orderId The order ID
+   * @param options Bleed in millimetres and whether to draw crop marks
+   */
+  async generatePrintFile(orderId: number, options: GeneratePrintPdfDto = {}) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: {
+        id: true,
+        items: { include: { variant: true }, orderBy: { id: 'asc' } },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    }
+
+    const bleed = options.bleed ?? this.getPdfBleed();
+    const cropMarks = options.cropMarks ?? true;
+    const dpi = this.getDpi();
+
+    const sides = order.items.flatMap((item) =>
+      PRINT_SIDES.filter((side) =>
+        this.hasElements(item[DESIGN_FIELDS[side]]),
+      ).map((side) => ({
+        item,
+        side,
+        design: parseDesignDocument(item[DESIGN_FIELDS[side]]),
+      })),
+    );
+    if (sides.length === 0) {
+      throw new BadRequestException(
+        `Order #${orderId} has no designed items to print`,
+      );
+    }
+
+    for (const { item } of sides) {
+      if (
+        item.variant.printAreaWidth <= 0 ||
+        item.variant.printAreaHeight <= 0
+      ) {
+        throw new BadRequestException(
+          `Variant #${item.variantId} has no print area configured`,
+        );
+      }
+    }
+
+    const assets = await this.designRenderer.loadAssets(
+      sides.map(({ design }) => design),
+    );
+
+    let pdf: Buffer;
+    try {
+      const pages: PrintPdfPage[] = [];
+      for (const { item, side, design } of sides) {
+        const { variant } = item;
+        pages.push({
+          image: await this.designRenderer.render(
+            design,
+            assets,
+            mmToPx(variant.printAreaWidth, dpi),
+            mmToPx(variant.printAreaHeight, dpi),
+            dpi,
+            mmToPx(bleed, dpi),
+          ),
+          width: variant.printAreaWidth,
+          height: variant.printAreaHeight,
+          slug: [
+            `Order #${order.id}`,
+            `Item #${item.id}`,
+            `${variant.color} / ${variant.size}`,
+            `Qty ${item.quantity}`,
+            side.toUpperCase(),
+            `${variant.printAreaWidth} x ${variant.printAreaHeight} mm`,
+          ].join('  |  '),
+        });
+      }
+
+      pdf = await this.printPdfService.build(pages, {
+        bleed,
+        cropMarks,
+        title: `Order #${order.id} print files`,
+      });
+    } catch (error) {
+      console.error('Print PDF generation error:', error);
+      throw new InternalServerErrorException(
+        'Bosma PDF faylini yaratishda xatolik yuz berdi',
+      );
+    }
+
+    // Avval vaqtinchalik faylga yoziladi: yuklab olinayotgan PDF yarim qolmaydi
+    const printDir = path.join(this.uploadPath, 'print-files');
+    await fs.mkdir(printDir, { recursive: true });
+    const fileName = this.getOrderPdfFileName(orderId);
+    const tempPath = path.join(printDir, `${fileName}.tmp`);
+    await fs.writeFile(tempPath, pdf);
+    await fs.rename(tempPath, path.join(printDir, fileName));
 
-  async generatePrintFile(orderId: number) {
-    // Implementation for generating print files
-    // This would typically involve combining design elements with product templates
-    // and creating final print-ready files
     return {
-      success: true,
-      message: `Print file generated for order ${orderId}`,
-      filePath: `/uploads/print-files/order-${orderId}.pdf`,
+      orderId,
+      filePath: `/uploads/print-files/${fileName}`,
+      pages: sides.length,
+      bleed,
+      cropMarks,
     };
   }
 
-  async uploadPrintFile(file: Express.Multer.File, orderId: number) {
-    // Implementation for uploading print files
+  /**
+   * Resolves the local path of an order's generated print PDF
+   * @param orderId The order ID
+   */
+  getPrintPdfPath(orderId: number) {
+    const fileName = this.getOrderPdfFileName(orderId);
+    const absolutePath = path.join(this.uploadPath, 'print-files', fileName);
+
+    if (!fsSync.existsSync(absolutePath)) {
+      throw new NotFoundException(
+        `Order #${orderId} has no print PDF, generate it first`,
+      );
+    }
+
+    return { absolutePath, fileName };
+  }
+
+  /**
+   * Replaces the print file of one side with a manually prepared file
+   * @param file The uploaded file (PNG, TIFF or PDF)
+   * @param orderItemId The order item ID
+   * @param side Which side the file is for
+   */
+  async uploadPrintFile(
+    file: Express.Multer.File,
+    orderItemId: number,
+    side: PrintSide,
+  ) {
+    if (!file || !file.buffer || file.buffer.length === 0) {
+      throw new BadRequestException('No file provided');
+    }
+
+    const extension = ALLOWED_PRINT_FILE_TYPES[file.mimetype];
+    if (!extension) {
+      throw new BadRequestException(
+        `File type ${file.mimetype} is not allowed. Allowed types: ${Object.keys(ALLOWED_PRINT_FILE_TYPES).join(', ')}`,
+      );
+    }
+
+    const orderItem = await this.findOrderItem(orderItemId);
+    const previousFile = orderItem[PRINT_FILE_FIELDS[side]];
+
+    const filePath = await this.savePrintFile(
+      orderItemId,
+      side,
+      file.buffer,
+      extension,
+    );
+
+    const updated = await this.prisma.orderItem.update({
+      where: { id: orderItemId },
+      data: { [PRINT_FILE_FIELDS[side]]: filePath },
+      select: { id: true, frontPrintFile: true, backPrintFile: true },
+    });
+
+    await this.removePrintFile(previousFile);
+
+    return updated;
+  }
+
+  /**
+   * Resolves the local path of a generated or uploaded print file
+   * @param orderItemId The order item ID
+   * @param side Which side to download
+   */
+  async getPrintFilePath(orderItemId: number, side: PrintSide) {
+    const orderItem = await this.findOrderItem(orderItemId);
+    const fileUrl = orderItem[PRINT_FILE_FIELDS[side]];
+
+    const absolutePath = fileUrl ? this.toLocalPath(fileUrl) : null;
+    if (!absolutePath || !fsSync.existsSync(absolutePath)) {
+      throw new NotFoundException(
+        `OrderItem #${orderItemId} has no ${side} print file`,
+      );
+    }
+
     return {
-      success: true,
-      message: `Print file uploaded for order ${orderId}`,
-      filePath: `/uploads/print-files/order-${orderId}-${file.originalname}`,
+      absolutePath,
+      fileName: `order-${orderItem.orderId}-item-${orderItemId}-${side}${path.extname(absolutePath)}`,
     };
   }
 
-  async generatePrintFileWithCanvas(orderItemId: number): Promise<string> {
+  /**
+   * Generates missing print files for all items of paid orders in production
+   */
+  async generatePendingPrintFiles() {
+    const candidates = await this.prisma.orderItem.findMany({
+      where: {
+        order: { status: { in: PRODUCTION_STATUSES } },
+        OR: [{ frontPrintFile: null }, { backPrintFile: null }],
+      },
+      select: {
+        id: true,
+        orderId: true,
+        frontDesign: true,
+        backDesign: true,
+        frontPrintFile: true,
+        backPrintFile: true,
+      },
+      orderBy: { id: 'asc' },
+    });
+
+    // Only items that actually have an un-rendered designed side are pending
+    const pending = candidates.filter((item) =>
+      PRINT_SIDES.some(
+        (side) =>
+          this.hasElements(item[DESIGN_FIELDS[side]]) &&
+          !item[PRINT_FILE_FIELDS[side]],
+      ),
+    );
+
+    const generated: ({ orderItemId: number } & GeneratedPrintFiles)[] = [];
+    const failed: { orderItemId: number; error: string }[] = [];
+
+    for (const item of pending) {
+      try {
+        const files = await this.generatePrintFileWithCanvas(item.id);
+        generated.push({ orderItemId: item.id, ...files });
+      } catch (error) {
+        failed.push({ orderItemId: item.id, error: error.message });
+      }
+    }
+
+    return { total: pending.length, generated, failed };
+  }
+
+  /**
+   * Generates print files for every item of an order
+   * @param orderId The order ID
+   */
+  async generateOrderPrintFiles(
+    orderId: number,
+    options: GeneratePrintFileOptions = {},
+  ) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { id: true, items: { select: { id: true } } },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${orderId} not found`);
+    }
+
+    const items: ({ orderItemId: number } & GeneratedPrintFiles)[] = [];
+    for (const item of order.items) {
+      const files = await this.generatePrintFileWithCanvas(item.id, options);
+      items.push({ orderItemId: item.id, ...files });
+    }
+
+    return { orderId, dpi: this.getDpi(), items };
+  }
+
+  /**
+   * Renders one print-ready PNG per designed side of an order item.
+   * The canvas matches the variant print area (millimetres) at the configured DPI.
+   * @param orderItemId The order item ID
+   * @param options Pass force to re-render sides that already have a file
+   */
+  async generatePrintFileWithCanvas(
+    orderItemId: number,
+    options: GeneratePrintFileOptions = {},
+  ): Promise<GeneratedPrintFiles> {
     // 1. Ma'lumotlarni olish
     const orderItem = await this.prisma.orderItem.findUnique({
       where: { id: orderItemId },
@@ -45,82 +350,152 @@ export class PrintFileService {
       throw new NotFoundException(`OrderItem #${orderItemId} topilmadi`);
     }
 
-    // Front va Back dizaynlarni tekshirish (ikkalasi ham bo'lsa, ikkita fayl yoki birlashtirish kerak)
-    // Hozircha birinchisini olamiz
-    const designData = (orderItem.frontDesign || orderItem.backDesign) as any;
-    if (!designData || !designData.elements) {
-      throw new InternalServerErrorException('Dizayn elementlari mavjud emas');
+    // 2. Har bir tomon uchun alohida fayl: old va orqa dizaynlar
+    const designedSides = PRINT_SIDES.filter((side) =>
+      this.hasElements(orderItem[DESIGN_FIELDS[side]]),
+    );
+    if (designedSides.length === 0) {
+      throw new BadRequestException('Dizayn elementlari mavjud emas');
     }
 
-    try {
-      // 2. Kutubxonalarni yuklash
-      const { createCanvas, loadImage } = await import('canvas');
-      const { v4: uuidv4 } = await import('uuid');
-
-      // 3. Papkani tayyorlash
-      const printDir = path.join(this.uploadPath, 'print-files');
-      await fs.mkdir(printDir, { recursive: true });
-
-      const printFilename = `${uuidv4()}_print.png`;
-      const printFilePath = path.join(printDir, printFilename);
-
-      // 4. Canvas yaratish (3000x3000px)
-      const canvas = createCanvas(3000, 3000);
-      const ctx = canvas.getContext('2d');
-
-      // Shaffof fon (bu muhim, chunki kiyim ustiga bosiladi)
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-      // 5. Elementlarni chizish
-      for (const element of designData.elements) {
-        if (!element.assetUrl) continue;
-
-        // Pathni to'g'irlash (Agar /uploads bilan boshlansa, process.cwd bilan birlashtirish)
-        const relativePath = element.assetUrl.startsWith('/')
-          ? element.assetUrl.substring(1)
-          : element.assetUrl;
-        const assetPath = path.join(process.cwd(), relativePath);
-
-        if (fsSync.existsSync(assetPath)) {
-          const img = await loadImage(assetPath);
-
-          // Hisoblashlar
-          const x = (element.x_percent / 100) * canvas.width;
-          const y = (element.y_percent / 100) * canvas.height;
-          const width = (element.width_percent / 100) * canvas.width; // 'width' emas 'width_percent' bo'lishi aniqroq
-          const height = (element.height_percent / 100) * canvas.height;
-
-          ctx.save();
-          // Markaz bo'yicha transformatsiya qilish
-          ctx.translate(x + width / 2, y + height / 2);
-          ctx.rotate(((element.rotation || 0) * Math.PI) / 180);
-
-          const scale = element.scale || 1;
-          ctx.scale(scale, scale);
-
-          // Rasmni chizish
-          ctx.drawImage(img, -width / 2, -height / 2, width, height);
-          ctx.restore();
-        }
-      }
+    const sides = options.force
+      ? designedSides
+      : designedSides.filter((side) => !orderItem[PRINT_FILE_FIELDS[side]]);
 
-      // 6. Saqlash
-      const buffer = canvas.toBuffer('image/png');
-      await fs.writeFile(printFilePath, buffer);
+    const dpi = this.getDpi();
+    const width = mmToPx(orderItem.variant.printAreaWidth, dpi);
+    const height = mmToPx(orderItem.variant.printAreaHeight, dpi);
+    if (width <= 0 || height <= 0) {
+      throw new BadRequestException(
+        `Variant #${orderItem.variantId} has no print area configured`,
+      );
+    }
 
-      // 7. Bazani yangilash
-      const publicUrl = `/uploads/print-files/${printFilename}`;
-      await this.prisma.orderItem.update({
-        where: { id: orderItemId },
-        data: { finalPrintFile: publicUrl },
-      });
+    const result: GeneratedPrintFiles = {
+      frontPrintFile: orderItem.frontPrintFile,
+      backPrintFile: orderItem.backPrintFile,
+    };
+    if (sides.length === 0) {
+      return result;
+    }
+
+    // Eski versiyadagi dizaynlar joriy sxemaga o'tkaziladi, buzuqlari rad etiladi
+    const designs = new Map(
+      sides.map((side) => [
+        side,
+        parseDesignDocument(orderItem[DESIGN_FIELDS[side]]),
+      ]),
+    );
+
+    // Rasmlar render boshlanishidan oldin yuklanadi: topilmagan asset butun so'rovni to'xtatadi
+    const assets = await this.designRenderer.loadAssets([...designs.values()]);
 
-      return publicUrl;
+    try {
+      for (const [side, design] of designs) {
+        const buffer = await this.designRenderer.render(
+          design,
+          assets,
+          width,
+          height,
+          dpi,
+        );
+        result[PRINT_FILE_FIELDS[side]] = await this.savePrintFile(
+          orderItemId,
+          side,
+          buffer,
+        );
+      }
     } catch (error) {
       console.error('Print generation error:', error);
       throw new InternalServerErrorException(
         'Bosma faylni yaratishda xatolik yuz berdi',
       );
     }
+
+    // 3. Bazani yangilash
+    await this.prisma.orderItem.update({
+      where: { id: orderItemId },
+      data: {
+        frontPrintFile: result.frontPrintFile,
+        backPrintFile: result.backPrintFile,
+      },
+    });
+
+    // Qayta yaratilganda eski fayllarni o'chiramiz
+    for (const side of sides) {
+      await this.removePrintFile(orderItem[PRINT_FILE_FIELDS[side]]);
+    }
+
+    return result;
+  }
+
+  private async findOrderItem(orderItemId: number) {
+    const orderItem = await this.prisma.orderItem.findUnique({
+      where: { id: orderItemId },
+      select: {
+        id: true,
+        orderId: true,
+        frontPrintFile: true,
+        backPrintFile: true,
+      },
+    });
+
+    if (!orderItem) {
+      throw new NotFoundException(`OrderItem #${orderItemId} topilmadi`);
+    }
+
+    return orderItem;
+  }
+
+  private async savePrintFile(
+    orderItemId: number,
+    side: PrintSide,
+    buffer: Buffer,
+    extension: string = '.png',
+  ): Promise<string> {
+    const { v4: uuidv4 } = await import('uuid');
+
+    const printDir = path.join(this.uploadPath, 'print-files');
+    await fs.mkdir(printDir, { recursive: true });
+
+    const printFilename = `item-${orderItemId}-${side}-${uuidv4()}${extension}`;
+    await fs.writeFile(path.join(printDir, printFilename), buffer);
+
+    return `/uploads/print-files/${printFilename}`;
+  }
+
+  private async removePrintFile(fileUrl?: string | null): Promise<void> {
+    const absolutePath = fileUrl ? this.toLocalPath(fileUrl) : null;
+    if (!absolutePath) return;
+
+    await fs.rm(absolutePath, { force: true });
+  }
+
+  // Only files inside uploads/print-files are served or deleted
+  private toLocalPath(fileUrl: string): string | null {
+    const printDir = path.join(this.uploadPath, 'print-files');
+    const relativePath = fileUrl.replace(/^\/?uploads\//, '');
+    const absolutePath = path.resolve(this.uploadPath, relativePath);
+
+    return absolutePath.startsWith(printDir + path.sep) ? absolutePath : null;
+  }
+
+  private hasElements(design: unknown): boolean {
+    const elements = (design as any)?.elements;
+    return Array.isArray(elements) && elements.length > 0;
+  }
+
+  private getOrderPdfFileName(orderId: number): string {
+    return `order-${orderId}.pdf`;
+  }
+
+  private getPdfBleed(): number {
+    const bleed = Number(this.configService.get<string>('PRINT_PDF_BLEED_MM'));
+    return Number.isFinite(bleed) && bleed >= 0 ? bleed : DEFAULT_PDF_BLEED_MM;
+  }
+
+  private getDpi(): number {
+    const dpi = Number(this.configService.get<string>('PRINT_DPI'));
+    return Number.isFinite(dpi) && dpi > 0 ? dpi : DEFAULT_PRINT_DPI;
   }
 }
@@ -0,0 +1,85 @@
+import * as path from 'path';
+
+// Serverda o'rnatilgan fontlarga bog'liq bo'lmaslik uchun fontlar paket bilan birga keladi.
+// DejaVu kirill va o'zbek lotin (oʻ, gʻ, ʼ) harflarini to'liq qamrab oladi.
+export const DEFAULT_FONT_FAMILY = 'DejaVu Sans';
+
+interface BundledFontFile {
+  file: string;
+  weight: 'normal' | 'bold';
+  style: 'normal' | 'italic';
+}
+
+export const BUNDLED_FONTS: Record<string, BundledFontFile[]> = {
+  'DejaVu Sans': [
+    { file: 'DejaVuSans.ttf', weight: 'normal', style: 'normal' },
+    { file: 'DejaVuSans-Bold.ttf', weight: 'bold', style: 'normal' },
+    { file: 'DejaVuSans-Oblique.ttf', weight: 'normal', style: 'italic' },
+    { file: 'DejaVuSans-BoldOblique.ttf', weight: 'bold', style: 'italic' },
+  ],
+  'DejaVu Sans Condensed': [
+    { file: 'DejaVuSansCondensed.ttf', weight: 'normal', style: 'normal' },
+    { file: 'DejaVuSansCondensed-Bold.ttf', weight: 'bold', style: 'normal' },
+    {
+      file: 'DejaVuSansCondensed-Oblique.ttf',
+      weight: 'normal',
+      style: 'italic',
+    },
+    {
+      file: 'DejaVuSansCondensed-BoldOblique.ttf',
+      weight: 'bold',
+      style: 'italic',
+    },
+  ],
+  'DejaVu Serif': [
+    { file: 'DejaVuSerif.ttf', weight: 'normal', style: 'normal' },
+    { file: 'DejaVuSerif-Bold.ttf', weight: 'bold', style: 'normal' },
+    { file: 'DejaVuSerif-Italic.ttf', weight: 'normal', style: 'italic' },
+    { file: 'DejaVuSerif-BoldItalic.ttf', weight: 'bold', style: 'italic' },
+  ],
+  'DejaVu Sans Mono': [
+    { file: 'DejaVuSansMono.ttf', weight: 'normal', style: 'normal' },
+    { file: 'DejaVuSansMono-Bold.ttf', weight: 'bold', style: 'normal' },
+    { file: 'DejaVuSansMono-Oblique.ttf', weight: 'normal', style: 'italic' },
+    {
+      file: 'DejaVuSansMono-BoldOblique.ttf',
+      weight: 'bold',
+      style: 'italic',
+    },
+  ],
+};
+
+export const BUNDLED_FONT_FAMILIES = Object.keys(BUNDLED_FONTS);
+
+let fontsRegistered = false;
+
+/**
+ * Registers the bundled fonts with node-canvas.
+ * Must run before the first canvas is created; later calls are no-ops.
+ */
+export function registerBundledFonts(
+  registerFont: (
+    fontPath: string,
+    fontFace: { family: string; weight?: string; style?: string },
+  ) => void,
+): void {
+  if (fontsRegistered) return;
+
+  const fontDir = path.join(
+    path.dirname(require.resolve('dejavu-fonts-ttf/package.json')),
+    'ttf',
+  );
+
+  for (const [family, files] of Object.entries(BUNDLED_FONTS)) {
+    for (const { file, weight, style } of files) {
+      registerFont(path.join(fontDir, file), { family, weight, style });
+    }
+  }
+
+  fontsRegistered = true;
+}
+
+// Noma'lum shriftlar standart shriftga almashtiriladi
+export function resolveFontFamily(family?: string): string {
+  return family && BUNDLED_FONTS[family] ? family : DEFAULT_FONT_FAMILY;
+}
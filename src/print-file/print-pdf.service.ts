@@ -0,0 +1,146 @@
+import { Injectable } from '@nestjs/common';
+import type { CanvasRenderingContext2D } from 'canvas';
+import { DEFAULT_FONT_FAMILY, registerBundledFonts } from './print-fonts';
+import { MM_PER_INCH } from './design-renderer.service';
+
+export interface PrintPdfPage {
+  // Transparent PNG of the print area plus bleed
+  image: Buffer;
+  // Trim size, i.e. the variant print area, in millimetres
+  width: number;
+  height: number;
+  slug: string;
+}
+
+export interface PrintPdfOptions {
+  bleed: number;
+  cropMarks: boolean;
+  title?: string;
+}
+
+const PT_PER_INCH = 72;
+
+// Barcha o'lchamlar millimetrda
+const PAGE_MARGIN = 12;
+const CROP_MARK_OFFSET = 1;
+const CROP_MARK_LENGTH = 5;
+const CROP_MARK_WIDTH = 0.1;
+const SLUG_FONT_SIZE = 2.5;
+const SLUG_OFFSET = 9;
+
+function mmToPt(mm: number): number {
+  return (mm / MM_PER_INCH) * PT_PER_INCH;
+}
+
+/**
+ * Lays out rendered print areas as PDF pages. Every page holds one item side
+ * at its physical size, surrounded by the bleed, optional crop marks and a
+ * slug line identifying the item.
+ */
+@Injectable()
+export class PrintPdfService {
+  async build(
+    pages: PrintPdfPage[],
+    options: PrintPdfOptions,
+  ): Promise<Buffer> {
+    const { createCanvas, loadImage, registerFont } = await import('canvas');
+    registerBundledFonts(registerFont);
+
+    let canvas: ReturnType<typeof createCanvas> | undefined;
+    let ctx: CanvasRenderingContext2D | undefined;
+
+    for (const page of pages) {
+      const pageWidth = mmToPt(page.width + (options.bleed + PAGE_MARGIN) * 2);
+      const pageHeight = mmToPt(
+        page.height + (options.bleed + PAGE_MARGIN) * 2,
+      );
+
+      // PDF canvas birinchi sahifa bilan yaratiladi, keyingilari qo'shiladi
+      if (!canvas || !ctx) {
+        canvas = createCanvas(pageWidth, pageHeight, 'pdf');
+        ctx = canvas.getContext('2d');
+      } else {
+        ctx.addPage(pageWidth, pageHeight);
+      }
+
+      const image = await loadImage(page.image);
+      ctx.drawImage(
+        image,
+        mmToPt(PAGE_MARGIN),
+        mmToPt(PAGE_MARGIN),
+        mmToPt(page.width + options.bleed * 2),
+        mmToPt(page.height + options.bleed * 2),
+      );
+
+      if (options.cropMarks) {
+        this.drawCropMarks(ctx, page, options.bleed);
+      }
+      this.drawSlug(ctx, page, options.bleed);
+    }
+
+    if (!canvas) {
+      throw new Error('A print PDF needs at least one page');
+    }
+
+    return canvas.toBuffer('application/pdf', {
+      title: options.title,
+      creator: 'Bosma.uz',
+    });
+  }
+
+  // Kesish chiziqlari bleed tashqarisida, trim chegaralari davomida chiziladi
+  private drawCropMarks(
+    ctx: CanvasRenderingContext2D,
+    page: PrintPdfPage,
+    bleed: number,
+  ): void {
+    const trimLeft = PAGE_MARGIN + bleed;
+    const trimTop = PAGE_MARGIN + bleed;
+    const trimRight = trimLeft + page.width;
+    const trimBottom = trimTop + page.height;
+    const start = bleed + CROP_MARK_OFFSET;
+    const end = start + CROP_MARK_LENGTH;
+
+    ctx.save();
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = mmToPt(CROP_MARK_WIDTH);
+    ctx.beginPath();
+
+    for (const x of [trimLeft, trimRight]) {
+      const direction = x === trimLeft ? -1 : 1;
+      for (const y of [trimTop, trimBottom]) {
+        const vertical = y === trimTop ? -1 : 1;
+
+        // Gorizontal chiziq
+        ctx.moveTo(mmToPt(x + direction * start), mmToPt(y));
+        ctx.lineTo(mmToPt(x + direction * end), mmToPt(y));
+        // Vertikal chiziq
+        ctx.moveTo(mmToPt(x), mmToPt(y + vertical * start));
+        ctx.lineTo(mmToPt(x), mmToPt(y + vertical * end));
+      }
+    }
+
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  private drawSlug(
+    ctx: CanvasRenderingContext2D,
+    page: PrintPdfPage,
+    bleed: number,
+  ): void {
+    ctx.save();
+    ctx.fillStyle = '#000000';
+    ctx.font = `${mmToPt(SLUG_FONT_SIZE)}px "${DEFAULT_FONT_FAMILY}"`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+    // Tor print area'larda matn sahifa chetigacha siqiladi
+    ctx.fillText(
+      page.slug,
+      mmToPt(PAGE_MARGIN + bleed),
+      mmToPt(PAGE_MARGIN + bleed * 2 + page.height + SLUG_OFFSET),
+      mmToPt(page.width + bleed + PAGE_MARGIN - CROP_MARK_OFFSET),
+    );
+    ctx.restore();
+  }
+}
@@ -6,6 +6,7 @@ import {
   Patch,
   Param,
   Delete,
+  Put,
   HttpCode,
   HttpStatus,
   UseGuards,
@@ -17,6 +18,8 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { ProductService } from './product.service';
+import { PricingService } from '../pricing/pricing.service';
+import { ReplacePriceTiersDto } from '../pricing/dto/replace-price-tiers.dto';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { BaseQueryDto } from '../common/dto/base-query.dto';
@@ -29,7 +32,10 @@ import { AnyFilesInterceptor } from '@nestjs/platform-express';
 
 @Controller('products')
 export class ProductController {
-  constructor(private readonly productService: ProductService) {}
+  constructor(
+    private readonly productService: ProductService,
+    private readonly pricingService: PricingService,
+  ) {}
 
   @Post()
   @Roles(Role.ADMIN, Role.SUPER_ADMIN)
@@ -110,6 +116,19 @@ export class ProductController {
     return this.productService.update(id, updateProductDto);
   }
 
+  // Mahsulotning barcha variantlari uchun ulgurji narx pog'onalari
+  @Put(':id/price-tiers')
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  replacePriceTiers(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: ReplacePriceTiersDto,
+  ) {
+    return this.pricingService.replaceTiers({ productId: id }, dto.tiers);
+  }
+
   @Delete(':id')
   @Roles(Role.ADMIN, Role.SUPER_ADMIN)
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -5,9 +5,10 @@ import { ProductService } from './product.service';
 import { ProductController } from './product.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AuthModule } from '../auth/auth.module';
+import { PricingModule } from '../pricing/pricing.module';
 
 @Module({
-  imports: [PrismaModule, ConfigModule, AuthModule],
+  imports: [PrismaModule, ConfigModule, AuthModule, PricingModule],
   controllers: [ProductController],
   providers: [ProductService],
   exports: [ProductService],
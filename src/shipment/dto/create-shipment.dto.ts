@@ -0,0 +1,38 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateShipmentDto {
+  @ApiProperty({ description: 'A PROCESSING order to ship', example: 42 })
+  @IsInt()
+  @IsPositive()
+  orderId: number;
+
+  @ApiProperty({ example: 'BTS' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  carrier: string;
+
+  @ApiPropertyOptional({ example: 'BTS-000123456' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  trackingNumber?: string;
+
+  @ApiPropertyOptional({
+    description: 'User with the COURIER role who delivers the order',
+    example: 7,
+  })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  courierId?: number;
+}
@@ -0,0 +1,10 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class DeliverShipmentDto {
+  @ApiPropertyOptional({ example: 'Left with the receptionist' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
@@ -0,0 +1,93 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiBearerAuth, ApiBody, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { ShipmentService } from './shipment.service';
+import { CreateShipmentDto } from './dto/create-shipment.dto';
+import { UpdateShipmentDto } from './dto/update-shipment.dto';
+import { DeliverShipmentDto } from './dto/deliver-shipment.dto';
+import { ShipmentQueryDto } from './dto/shipment-query.dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+
+@ApiTags('Shipments')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('shipments')
+export class ShipmentController {
+  constructor(private readonly shipmentService: ShipmentService) {}
+
+  @Post()
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+  @HttpCode(HttpStatus.CREATED)
+  create(@Body() dto: CreateShipmentDto, @Request() req) {
+    return this.shipmentService.create(dto, req.user.id);
+  }
+
+  // Kuryerlar uchun faqat o'zlariga biriktirilganlari qaytadi
+  @Get()
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN, Role.COURIER)
+  @HttpCode(HttpStatus.OK)
+  findAll(@Query() query: ShipmentQueryDto, @Request() req) {
+    return this.shipmentService.findAll(query, req.user);
+  }
+
+  @Get(':id')
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN, Role.COURIER)
+  @HttpCode(HttpStatus.OK)
+  findOne(@Param('id', ParseIntPipe) id: number, @Request() req) {
+    return this.shipmentService.findOne(id, req.user);
+  }
+
+  @Patch(':id')
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateShipmentDto,
+  ) {
+    return this.shipmentService.update(id, dto);
+  }
+
+  @Post(':id/deliver')
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN, Role.COURIER)
+  @UseInterceptors(
+    FileInterceptor('photo', { limits: { fileSize: 10 * 1024 * 1024 } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['photo'],
+      properties: {
+        photo: { type: 'string', format: 'binary' },
+        note: { type: 'string' },
+      },
+    },
+  })
+  @HttpCode(HttpStatus.OK)
+  deliver(
+    @Param('id', ParseIntPipe) id: number,
+    @UploadedFile() photo: Express.Multer.File,
+    @Body() dto: DeliverShipmentDto,
+    @Request() req,
+  ) {
+    return this.shipmentService.deliver(id, photo, dto, req.user);
+  }
+}
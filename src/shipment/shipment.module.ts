@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { OrderModule } from '../order/order.module';
+import { ShipmentService } from './shipment.service';
+import { ShipmentController } from './shipment.controller';
+
+@Module({
+  imports: [
+    PrismaModule,
+    ConfigModule,
+    AuthModule,
+    SupabaseModule,
+    OrderModule,
+  ],
+  controllers: [ShipmentController],
+  providers: [ShipmentService],
+})
+export class ShipmentModule {}
@@ -0,0 +1,221 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { OrderStatus, Prisma, Role } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { OrderService } from '../order/order.service';
+import { CreateShipmentDto } from './dto/create-shipment.dto';
+import { UpdateShipmentDto } from './dto/update-shipment.dto';
+import { DeliverShipmentDto } from './dto/deliver-shipment.dto';
+import { ShipmentQueryDto } from './dto/shipment-query.dto';
+
+export interface ShipmentViewer {
+  id: number;
+  role: Role;
+}
+
+const PROOF_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png'];
+
+// Kuryerga yetkazish uchun kerakli buyurtma ma'lumotlari
+const shipmentInclude = {
+  order: {
+    select: {
+      id: true,
+      status: true,
+      customerName: true,
+      customerPhone: true,
+      region: true,
+      address: true,
+      paymentMethod: true,
+      paymentStatus: true,
+      totalPrice: true,
+      shippingFee: true,
+    },
+  },
+  courier: { select: { id: true, fullName: true, phone: true } },
+} satisfies Prisma.ShipmentInclude;
+
+@Injectable()
+export class ShipmentService {
+  constructor(
+    private prisma: PrismaService,
+    private supabaseService: SupabaseService,
+    private orderService: OrderService,
+  ) {}
+
+  /**
+   * Ships a PROCESSING order: records the carrier, tracking number and
+   * courier, and moves the order to SHIPPED
+   * @param dto The shipment details
+   * @param actorId The admin dispatching the order
+   */
+  async create(dto: CreateShipmentDto, actorId: number) {
+    const shipment = await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.shipment.findUnique({
+        where: { orderId: dto.orderId },
+      });
+      if (existing) {
+        throw new ConflictException(
+          `Order #${dto.orderId} has already been shipped`,
+        );
+      }
+
+      if (dto.courierId !== undefined) {
+        await this.assertCourier(dto.courierId, tx);
+      }
+
+      await this.orderService.transitionStatus(
+        tx,
+        dto.orderId,
+        OrderStatus.SHIPPED,
+        actorId,
+        `Shipped via ${dto.carrier}`,
+      );
+
+      return tx.shipment.create({ data: dto });
+    });
+
+    return this.findOne(shipment.id);
+  }
+
+  // Kuryer faqat o'ziga biriktirilgan jo'natmalarni ko'radi
+  findAll(query: ShipmentQueryDto, viewer: ShipmentViewer) {
+    const where: Prisma.ShipmentWhereInput = {};
+
+    if (viewer.role === Role.COURIER) {
+      where.courierId = viewer.id;
+    }
+    if (query.delivered !== undefined) {
+      where.deliveredAt = query.delivered ? { not: null } : null;
+    }
+
+    return this.prisma.shipment.findMany({
+      where,
+      include: shipmentInclude,
+      orderBy: { dispatchedAt: 'desc' },
+    });
+  }
+
+  async findOne(id: number, viewer?: ShipmentViewer) {
+    const shipment = await this.prisma.shipment.findUnique({
+      where: { id },
+      include: shipmentInclude,
+    });
+
+    if (!shipment) {
+      throw new NotFoundException(`Shipment with ID ${id} not found`);
+    }
+
+    if (viewer?.role === Role.COURIER && shipment.courierId !== viewer.id) {
+      throw new ForbiddenException('This shipment is not assigned to you');
+    }
+
+    return shipment;
+  }
+
+  async update(id: number, dto: UpdateShipmentDto) {
+    const shipment = await this.findOne(id);
+
+    if (dto.courierId !== undefined) {
+      if (shipment.deliveredAt) {
+        throw new BadRequestException(
+          'A delivered shipment cannot be reassigned',
+        );
+      }
+      await this.assertCourier(dto.courierId);
+    }
+
+    await this.prisma.shipment.update({
+      where: { id },
+      data: dto,
+    });
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Marks a shipment delivered with a proof-of-delivery photo and moves the
+   * order to DELIVERED. Cash for COD orders is confirmed separately through
+   * the payments cash-collected endpoint.
+   * @param id The shipment ID
+   * @param photo The proof-of-delivery photo
+   * @param dto Optional delivery note
+   * @param viewer The courier (or admin) confirming the delivery
+   */
+  async deliver(
+    id: number,
+    photo: Express.Multer.File,
+    dto: DeliverShipmentDto,
+    viewer: ShipmentViewer,
+  ) {
+    const shipment = await this.findOne(id, viewer);
+
+    if (shipment.deliveredAt) {
+      throw new BadRequestException(
+        `Shipment #${id} was already delivered at ${shipment.deliveredAt.toISOString()}`,
+      );
+    }
+    if (shipment.order.status !== OrderStatus.SHIPPED) {
+      throw new BadRequestException(
+        `Order #${shipment.orderId} is ${shipment.order.status}, not SHIPPED`,
+      );
+    }
+
+    if (!photo) {
+      throw new BadRequestException('A proof-of-delivery photo is required');
+    }
+    if (!PROOF_IMAGE_TYPES.includes(photo.mimetype)) {
+      throw new BadRequestException(
+        `File type ${photo.mimetype} is not allowed. Allowed types: ${PROOF_IMAGE_TYPES.join(', ')}`,
+      );
+    }
+
+    const proofOfDeliveryUrl = await this.supabaseService.uploadFile(
+      photo,
+      'proof-of-delivery',
+      `order-${shipment.orderId}`,
+    );
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.orderService.transitionStatus(
+        tx,
+        shipment.orderId,
+        OrderStatus.DELIVERED,
+        viewer.id,
+        dto.note ?? 'Delivered',
+      );
+
+      await tx.shipment.update({
+        where: { id },
+        data: {
+          proofOfDeliveryUrl,
+          deliveryNote: dto.note,
+          deliveredAt: new Date(),
+        },
+      });
+    });
+
+    return this.findOne(id);
+  }
+
+  private async assertCourier(
+    courierId: number,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    const courier = await client.user.findUnique({
+      where: { id: courierId },
+      select: { role: true },
+    });
+
+    if (courier?.role !== Role.COURIER) {
+      throw new BadRequestException(
+        `User with ID ${courierId} is not a courier`,
+      );
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Region } from '@prisma/client';
+
+export class CreateShippingZoneDto {
+  @ApiProperty({ example: 'Tashkent' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Regions in the zone. A region can belong to one zone only',
+    enum: Region,
+    isArray: true,
+    example: [Region.TASHKENT_CITY, Region.TASHKENT_REGION],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsEnum(Region, { each: true })
+  regions: Region[];
+
+  @ApiProperty({ description: 'Delivery fee per order', example: 25000 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  fee: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Delivery is free when the items total (after discounts) reaches this',
+    example: 500000,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  freeShippingThreshold?: number;
+
+  @ApiProperty({ description: 'Estimated delivery, in days', example: 1 })
+  @IsInt()
+  @Min(0)
+  minDays: number;
+
+  @ApiProperty({ example: 2 })
+  @IsInt()
+  @Min(0)
+  maxDays: number;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
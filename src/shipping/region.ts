@@ -0,0 +1,12 @@
+import { Region } from '@prisma/client';
+
+// Qidiruv matniga mos keladigan viloyatlar (masalan "tash" -> TASHKENT_CITY, TASHKENT_REGION)
+export function matchRegions(search: string): Region[] {
+  const term = search
+    .trim()
+    .toUpperCase()
+    .replace(/[\s-]+/g, '_');
+  return term
+    ? Object.values(Region).filter((region) => region.includes(term))
+    : [];
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { ShippingService } from './shipping.service';
+import { ShippingController } from './shipping.controller';
+
+@Module({
+  imports: [PrismaModule, ConfigModule, AuthModule],
+  controllers: [ShippingController],
+  providers: [ShippingService],
+  exports: [ShippingService],
+})
+export class ShippingModule {}
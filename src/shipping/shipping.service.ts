@@ -0,0 +1,160 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, Region, ShippingZone } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { roundMoney } from '../pricing/pricing.service';
+import { CreateShippingZoneDto } from './dto/create-shipping-zone.dto';
+import { UpdateShippingZoneDto } from './dto/update-shipping-zone.dto';
+
+export interface ShippingQuote {
+  zone: ShippingZone;
+  fee: number;
+  minDays: number;
+  maxDays: number;
+}
+
+// Buyurtma yaratishda yoziladigan yetkazib berish maydonlari
+export function toOrderShipping(quote: ShippingQuote) {
+  return {
+    shippingFee: quote.fee,
+    shippingZoneId: quote.zone.id,
+    deliveryDaysMin: quote.minDays,
+    deliveryDaysMax: quote.maxDays,
+  };
+}
+
+@Injectable()
+export class ShippingService {
+  constructor(private prisma: PrismaService) {}
+
+  async create(dto: CreateShippingZoneDto) {
+    this.assertValidDays(dto.minDays, dto.maxDays);
+    await this.assertRegionsFree(dto.regions);
+
+    return this.prisma.shippingZone.create({ data: dto });
+  }
+
+  findAll() {
+    return this.prisma.shippingZone.findMany({
+      include: { _count: { select: { orders: true } } },
+      orderBy: { fee: 'asc' },
+    });
+  }
+
+  async findOne(id: number) {
+    const zone = await this.prisma.shippingZone.findUnique({
+      where: { id },
+      include: { _count: { select: { orders: true } } },
+    });
+
+    if (!zone) {
+      throw new NotFoundException(`Shipping zone with ID ${id} not found`);
+    }
+
+    return zone;
+  }
+
+  async update(id: number, dto: UpdateShippingZoneDto) {
+    const zone = await this.findOne(id);
+
+    this.assertValidDays(
+      dto.minDays ?? zone.minDays,
+      dto.maxDays ?? zone.maxDays,
+    );
+    if (dto.regions) {
+      await this.assertRegionsFree(dto.regions, id);
+    }
+
+    return this.prisma.shippingZone.update({
+      where: { id },
+      data: dto,
+    });
+  }
+
+  // Buyurtmalardagi shippingFee va muddatlar o'zgarmaydi
+  async remove(id: number) {
+    await this.findOne(id);
+    await this.prisma.shippingZone.delete({ where: { id } });
+
+    return { message: `Shipping zone with ID ${id} has been deleted` };
+  }
+
+  /**
+   * Every region with the delivery terms of its active zone, for the
+   * region picker at checkout. Regions without one can't be delivered to.
+   */
+  async getRegions() {
+    const zones = await this.prisma.shippingZone.findMany({
+      where: { isActive: true },
+    });
+
+    return Object.values(Region).map((region) => {
+      const zone = zones.find((z) => z.regions.includes(region));
+      return {
+        region,
+        available: Boolean(zone),
+        fee: zone?.fee ?? null,
+        freeShippingThreshold: zone?.freeShippingThreshold ?? null,
+        minDays: zone?.minDays ?? null,
+        maxDays: zone?.maxDays ?? null,
+      };
+    });
+  }
+
+  /**
+   * Delivery fee and estimate for a region
+   * @param region The delivery region
+   * @param itemsTotal Items total after discounts, for the free-shipping threshold
+   * @param client Optional transaction client so the quote is read inside checkout
+   */
+  async quote(
+    region: Region,
+    itemsTotal: number,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<ShippingQuote> {
+    const zone = await client.shippingZone.findFirst({
+      where: { isActive: true, regions: { has: region } },
+    });
+
+    if (!zone) {
+      throw new BadRequestException(`Delivery to ${region} is not available`);
+    }
+
+    const free =
+      zone.freeShippingThreshold !== null &&
+      itemsTotal >= zone.freeShippingThreshold;
+
+    return {
+      zone,
+      fee: free ? 0 : roundMoney(zone.fee),
+      minDays: zone.minDays,
+      maxDays: zone.maxDays,
+    };
+  }
+
+  private assertValidDays(minDays: number, maxDays: number): void {
+    if (minDays > maxDays) {
+      throw new BadRequestException('minDays cannot be greater than maxDays');
+    }
+  }
+
+  private async assertRegionsFree(regions: Region[], zoneId?: number) {
+    const taken = await this.prisma.shippingZone.findFirst({
+      where: { id: { not: zoneId }, regions: { hasSome: regions } },
+      select: { name: true, regions: true },
+    });
+
+    if (taken) {
+      const overlap = taken.regions.filter((region) =>
+        regions.includes(region),
+      );
+      throw new ConflictException(
+        `${overlap.join(', ')} already belong to shipping zone ${taken.name}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { StockService } from './stock.service';
+
+// Variant jadvalini xotirada taqlid qiladi: updateMany shartini haqiqiy baza kabi tekshiradi
+function createTx(
+  stock: Record<number, number>,
+  orderItems: { variantId: number; quantity: number }[] = [],
+) {
+  const updateMany = jest.fn(
+    ({
+      where,
+      data,
+    }: {
+      where: { id: number; stock: { gte: number } };
+      data: { stock: { decrement: number } };
+    }) => {
+      const current = stock[where.id];
+      if (current === undefined || current < where.stock.gte) {
+        return Promise.resolve({ count: 0 });
+      }
+      stock[where.id] = current - data.stock.decrement;
+      return Promise.resolve({ count: 1 });
+    },
+  );
+  const update = jest.fn(
+    ({
+      where,
+      data,
+    }: {
+      where: { id: number };
+      data: { stock: { increment: number } };
+    }) => {
+      stock[where.id] = (stock[where.id] ?? 0) + data.stock.increment;
+      return Promise.resolve({});
+    },
+  );
+  const findUnique = jest.fn(({ where }: { where: { id: number } }) =>
+    Promise.resolve(
+      stock[where.id] === undefined ? null : { stock: stock[where.id] },
+    ),
+  );
+
+  const tx = {
+    variant: { updateMany, update, findUnique },
+    orderItem: { findMany: jest.fn().mockResolvedValue(orderItems) },
+  } as unknown as Prisma.TransactionClient;
+
+  return { tx, updateMany, update };
+}
+
+describe('StockService', () => {
+  const service = new StockService();
+
+  describe('reserve', () => {
+    it('decrements stock only where enough is left', async () => {
+      const stock = { 1: 5, 2: 3 };
+      const { tx, updateMany } = createTx(stock);
+
+      await service.reserve(tx, [
+        { variantId: 2, quantity: 1 },
+        { variantId: 1, quantity: 2 },
+        { variantId: 2, quantity: 2 },
+      ]);
+
+      expect(stock).toEqual({ 1: 3, 2: 0 });
+      // Bir variantning qatorlari qo'shiladi, qatorlar ID bo'yicha bloklanadi
+      expect(updateMany.mock.calls.map(([args]) => args)).toEqual([
+        {
+          where: { id: 1, stock: { gte: 2 } },
+          data: { stock: { decrement: 2 } },
+        },
+        {
+          where: { id: 2, stock: { gte: 3 } },
+          data: { stock: { decrement: 3 } },
+        },
+      ]);
+    });
+
+    it('reports every shortage with the requested and available quantity', async () => {
+      const stock = { 1: 1, 2: 10 };
+      const { tx } = createTx(stock);
+
+      const error: unknown = await service
+        .reserve(tx, [
+          { variantId: 1, quantity: 2 },
+          { variantId: 2, quantity: 4 },
+          { variantId: 3, quantity: 1 },
+        ])
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect((error as ConflictException).getResponse()).toMatchObject({
+        details: {
+          items: [
+            { variantId: 1, requested: 2, available: 1 },
+            { variantId: 3, requested: 1, available: 0 },
+          ],
+        },
+      });
+    });
+
+    it('never takes stock below zero', async () => {
+      const stock = { 1: 1 };
+      const { tx } = createTx(stock);
+
+      await expect(
+        service.reserve(tx, [{ variantId: 1, quantity: 2 }]),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(stock[1]).toBe(1);
+    });
+  });
+
+  describe('release', () => {
+    it('puts the quantities back', async () => {
+      const stock = { 1: 0, 2: 4 };
+      const { tx } = createTx(stock);
+
+      await service.release(tx, [
+        { variantId: 1, quantity: 2 },
+        { variantId: 2, quantity: 1 },
+        { variantId: 1, quantity: 1 },
+      ]);
+
+      expect(stock).toEqual({ 1: 3, 2: 5 });
+    });
+  });
+
+  describe('releaseOrder', () => {
+    it('restores the quantities of every order item', async () => {
+      const stock = { 1: 3, 2: 0 };
+      const { tx } = createTx(stock, [
+        { variantId: 1, quantity: 2 },
+        { variantId: 2, quantity: 5 },
+      ]);
+
+      await service.releaseOrder(tx, 42);
+
+      expect(stock).toEqual({ 1: 5, 2: 5 });
+    });
+  });
+});
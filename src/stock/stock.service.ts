@@ -0,0 +1,103 @@
+import { Injectable, ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+export interface StockItemInput {
+  variantId: number;
+  quantity: number;
+}
+
+@Injectable()
+export class StockService {
+  /**
+   * Atomically decrements stock for every variant in the list.
+   * Must run inside the checkout transaction so a failure rolls back all decrements.
+   * @param tx The transaction client
+   * @param items The variant/quantity pairs being purchased
+   */
+  async reserve(
+    tx: Prisma.TransactionClient,
+    items: StockItemInput[],
+  ): Promise<void> {
+    const shortages: {
+      variantId: number;
+      requested: number;
+      available: number;
+    }[] = [];
+
+    for (const [variantId, quantity] of this.groupByVariant(items)) {
+      // The stock condition is re-checked under the row lock taken by UPDATE,
+      // so two concurrent checkouts for the last unit can't both succeed
+      const { count } = await tx.variant.updateMany({
+        where: { id: variantId, stock: { gte: quantity } },
+        data: { stock: { decrement: quantity } },
+      });
+
+      if (count === 0) {
+        const variant = await tx.variant.findUnique({
+          where: { id: variantId },
+          select: { stock: true },
+        });
+        shortages.push({
+          variantId,
+          requested: quantity,
+          available: variant?.stock ?? 0,
+        });
+      }
+    }
+
+    if (shortages.length > 0) {
+      throw new ConflictException({
+        message: 'Not enough stock for some items in the order',
+        error: 'Insufficient Stock',
+        details: { items: shortages },
+      });
+    }
+  }
+
+  /**
+   * Puts the given quantities back into stock
+   * @param tx The transaction client
+   * @param items The variant/quantity pairs to restore
+   */
+  async release(
+    tx: Prisma.TransactionClient,
+    items: StockItemInput[],
+  ): Promise<void> {
+    for (const [variantId, quantity] of this.groupByVariant(items)) {
+      await tx.variant.update({
+        where: { id: variantId },
+        data: { stock: { increment: quantity } },
+      });
+    }
+  }
+
+  /**
+   * Restores stock for every item of an order
+   * @param tx The transaction client
+   * @param orderId The order whose items are returned to stock
+   */
+  async releaseOrder(
+    tx: Prisma.TransactionClient,
+    orderId: number,
+  ): Promise<void> {
+    const items = await tx.orderItem.findMany({
+      where: { orderId },
+      select: { variantId: true, quantity: true },
+    });
+
+    await this.release(tx, items);
+  }
+
+  // Sums quantities per variant and sorts by ID so concurrent transactions lock rows in the same order
+  private groupByVariant(items: StockItemInput[]): [number, number][] {
+    const totals = new Map<number, number>();
+    for (const item of items) {
+      totals.set(
+        item.variantId,
+        (totals.get(item.variantId) ?? 0) + Number(item.quantity),
+      );
+    }
+
+    return [...totals.entries()].sort(([a], [b]) => a - b);
+  }
+}
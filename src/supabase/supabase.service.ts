@@ -1,7 +1,13 @@
-import { Injectable, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
+const PUBLIC_URL_MARKER = '/object/public/bosma-images/';
+
 @Injectable()
 export class SupabaseService {
   private supabase: SupabaseClient | null;
@@ -86,8 +92,7 @@ export class SupabaseService {
     }
 
     // Extract file path from URL
-    const pathStart = fileUrl.indexOf('/object/public/bosma-images/') + 25;
-    const filePath = fileUrl.substring(pathStart);
+    const filePath = this.getStoragePath(fileUrl) ?? fileUrl;
 
     const { error } = await this.supabase.storage
       .from('bosma-images')
@@ -97,4 +102,42 @@ export class SupabaseService {
       throw new BadRequestException(`Delete failed: ${error.message}`);
     }
   }
+
+  /**
+   * Downloads a file from the bucket
+   * @param filePath Path inside the bucket, e.g. uploads/1700000000-logo.png
+   */
+  async downloadFile(filePath: string): Promise<Buffer> {
+    if (!this.supabase) {
+      throw new BadRequestException(
+        'Supabase is not configured. Please set SUPABASE_URL and SUPABASE_ANON_KEY environment variables.',
+      );
+    }
+
+    const { data, error } = await this.supabase.storage
+      .from('bosma-images')
+      .download(filePath);
+
+    if (error || !data) {
+      throw new NotFoundException(
+        `File ${filePath} could not be downloaded: ${error?.message ?? 'empty response'}`,
+      );
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  /**
+   * Returns the bucket path of a public URL produced by uploadFile,
+   * or null if the URL does not point to this bucket
+   */
+  getStoragePath(fileUrl: string): string | null {
+    const markerIndex = fileUrl.indexOf(PUBLIC_URL_MARKER);
+    if (markerIndex === -1) return null;
+
+    const filePath = fileUrl
+      .substring(markerIndex + PUBLIC_URL_MARKER.length)
+      .split('?')[0];
+    return decodeURIComponent(filePath);
+  }
 }
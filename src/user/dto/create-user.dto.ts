@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { Role } from '@prisma/client';
+import { Region, Role } from '@prisma/client';
 import {
   IsString,
   IsEmail,
@@ -48,12 +48,13 @@ export class CreateUserDto {
 
   @ApiProperty({
     description: 'Region of the user',
-    example: 'Tashkent',
+    enum: Region,
+    example: Region.TASHKENT_CITY,
     required: false,
   })
   @IsOptional()
-  @IsString()
-  region?: string;
+  @IsEnum(Region)
+  region?: Region;
 
   @ApiProperty({
     description: 'Address of the user',
@@ -10,7 +10,7 @@ import {
   MinLength,
   Matches,
 } from 'class-validator';
-import { Role } from '@prisma/client';
+import { Region, Role } from '@prisma/client';
 
 export class UpdateUserDto {
   @ApiPropertyOptional({
@@ -57,12 +57,13 @@ export class UpdateUserDto {
 
   @ApiPropertyOptional({
     description: 'Updated region of the user',
-    example: 'Tashkent',
+    enum: Region,
+    example: Region.TASHKENT_CITY,
     required: false,
   })
   @IsOptional()
-  @IsString()
-  region?: string;
+  @IsEnum(Region)
+  region?: Region;
 
   @ApiPropertyOptional({
     description: 'Updated address of the user',
@@ -6,6 +6,7 @@ import {
   Patch,
   Param,
   Delete,
+  Put,
   HttpCode,
   HttpStatus,
   UseGuards,
@@ -13,6 +14,8 @@ import {
   Query,
 } from '@nestjs/common';
 import { VariantService } from './variant.service';
+import { PricingService } from '../pricing/pricing.service';
+import { ReplacePriceTiersDto } from '../pricing/dto/replace-price-tiers.dto';
 import { CreateVariantDto } from './dto/create-variant.dto';
 import { UpdateVariantDto } from './dto/update-variant.dto';
 import { VariantQueryDto } from './dto/variant-query.dto';
@@ -24,7 +27,10 @@ import { ApiBearerAuth } from '@nestjs/swagger';
 
 @Controller('variants')
 export class VariantController {
-  constructor(private readonly variantService: VariantService) {}
+  constructor(
+    private readonly variantService: VariantService,
+    private readonly pricingService: PricingService,
+  ) {}
 
   @Post()
   @Roles(Role.ADMIN, Role.SUPER_ADMIN)
@@ -67,6 +73,19 @@ export class VariantController {
     return this.variantService.update(id, updateVariantDto);
   }
 
+  // Ulgurji narx pog'onalarini to'liq almashtirish
+  @Put(':id/price-tiers')
+  @Roles(Role.ADMIN, Role.SUPER_ADMIN)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  replacePriceTiers(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: ReplacePriceTiersDto,
+  ) {
+    return this.pricingService.replaceTiers({ variantId: id }, dto.tiers);
+  }
+
   @Delete(':id')
   @Roles(Role.ADMIN, Role.SUPER_ADMIN)
   @UseGuards(JwtAuthGuard, RolesGuard)
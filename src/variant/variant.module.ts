@@ -6,9 +6,16 @@ import { VariantController } from './variant.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { ProductModule } from '../product/product.module';
 import { AuthModule } from '../auth/auth.module';
+import { PricingModule } from '../pricing/pricing.module';
 
 @Module({
-  imports: [PrismaModule, ProductModule, ConfigModule, AuthModule],
+  imports: [
+    PrismaModule,
+    ProductModule,
+    ConfigModule,
+    AuthModule,
+    PricingModule,
+  ],
   controllers: [VariantController],
   providers: [VariantService],
   exports: [VariantService],
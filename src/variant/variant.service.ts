@@ -5,6 +5,7 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { buildTierTable } from '../pricing/pricing.service';
 import { Size, Variant } from '@prisma/client';
 import { Prisma } from '@prisma/client';
 
@@ -93,13 +94,26 @@ export class VariantService {
   async findOne(id: number) {
     const variant = await this.prisma.variant.findUnique({
       where: { id },
+      include: {
+        priceTiers: { orderBy: { minQuantity: 'asc' } },
+        product: {
+          select: { priceTiers: { orderBy: { minQuantity: 'asc' } } },
+        },
+      },
     });
 
     if (!variant) {
       throw new NotFoundException(`Variant with ID ${id} not found`);
     }
 
-    return variant;
+    // Variantning o'z pog'onalari bo'lmasa, mahsulot pog'onalari amal qiladi
+    const { priceTiers, product, ...rest } = variant;
+    const tiers = priceTiers.length > 0 ? priceTiers : product.priceTiers;
+
+    return {
+      ...rest,
+      priceTiers: buildTierTable(variant.price, tiers),
+    };
   }
 
   async update(id: number, updateData: any) {